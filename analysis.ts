@@ -0,0 +1,129 @@
+import type { AppData, DailyLogData, MealData } from './types';
+import { CUP_ML } from './goals';
+import { addDays } from './dates';
+import { getMeal, type MealSlot } from './mealSlots';
+
+export const ANALYSIS_RANGES = [7, 30, 90, 365];
+
+export type AnalysisMetric = 'weight' | 'sleep' | 'energy' | 'water' | 'rating';
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+export interface SeriesStats {
+  count: number;
+  average: number;
+  min: SeriesPoint;
+  max: SeriesPoint;
+}
+
+export interface LoggingStats {
+  loggedDays: number;
+  totalDays: number;
+  completeness: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export const getRangeStart = (to: string, days: number) => addDays(to, -(days - 1));
+
+export const getRangeDates = (from: string, to: string) => {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) dates.push(date);
+  return dates;
+};
+
+export const isMealLogged = (meal: MealData) => meal.menu.trim() !== '' || meal.items.length > 0;
+
+// Sleep and energy always have a value, so they don't count as logging on their own.
+export const isDayLogged = (entry: DailyLogData | undefined) => !!entry && (
+  Object.values(entry.meals).some(isMealLogged) ||
+  entry.weight !== null ||
+  entry.water > 0 ||
+  entry.exercise.trim() !== '' ||
+  entry.exercises.length > 0 ||
+  entry.notes.trim() !== ''
+);
+
+export const getMetricValue = (entry: DailyLogData, metric: AnalysisMetric): number | null => {
+  switch (metric) {
+    case 'weight':
+      return entry.weight;
+    case 'sleep':
+      return entry.sleep;
+    case 'energy':
+      return entry.energy;
+    case 'water':
+      return entry.water * CUP_ML;
+    case 'rating': {
+      const ratings = Object.values(entry.meals).map(meal => meal.rating).filter((rating): rating is number => rating !== null);
+      return ratings.length ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null;
+    }
+  }
+};
+
+export const buildSeries = (daily: AppData['daily'], dates: string[], getValue: (entry: DailyLogData) => number | null) =>
+  dates.flatMap(date => {
+    const entry = daily[date];
+    const value = entry ? getValue(entry) : null;
+    return value === null ? [] : [{ date, value }];
+  });
+
+export const buildMetricSeries = (daily: AppData['daily'], dates: string[], metric: AnalysisMetric) =>
+  buildSeries(daily, dates, entry => metric === 'weight' || metric === 'rating' || isDayLogged(entry)
+    ? getMetricValue(entry, metric)
+    : null);
+
+// "08:30" -> 8.5
+export const parseTimeToHours = (time: string) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  return match ? Number(match[1]) + Number(match[2]) / 60 : null;
+};
+
+export const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+export const buildMealTimeSeries = (daily: AppData['daily'], dates: string[], slot: MealSlot) =>
+  buildSeries(daily, dates, entry => {
+    const meal = getMeal(entry, slot);
+    return isMealLogged(meal) ? parseTimeToHours(meal.time) : null;
+  });
+
+export const getSeriesStats = (points: SeriesPoint[]): SeriesStats | null => {
+  if (!points.length) return null;
+  return {
+    count: points.length,
+    average: points.reduce((sum, point) => sum + point.value, 0) / points.length,
+    min: points.reduce((min, point) => point.value < min.value ? point : min),
+    max: points.reduce((max, point) => point.value > max.value ? point : max),
+  };
+};
+
+export const getLoggingStats = (daily: AppData['daily'], dates: string[]): LoggingStats => {
+  const logged = dates.map(date => isDayLogged(daily[date]));
+  let longestStreak = 0;
+  let run = 0;
+  logged.forEach(isLogged => {
+    run = isLogged ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  // The last day of the range may still be in progress, so an unlogged last day doesn't break the streak yet.
+  let end = logged.length - 1;
+  if (end >= 0 && !logged[end]) end--;
+  let currentStreak = 0;
+  while (end - currentStreak >= 0 && logged[end - currentStreak]) currentStreak++;
+
+  const loggedDays = logged.filter(Boolean).length;
+  return {
+    loggedDays,
+    totalDays: dates.length,
+    completeness: dates.length ? loggedDays / dates.length : 0,
+    currentStreak,
+    longestStreak,
+  };
+};
@@ -0,0 +1,233 @@
+import type { AppData, DailyLogData, MealData, WeeklyPlanData } from './types';
+import { toDateKey } from './dates';
+import {
+  PBKDF2_ITERATIONS, decryptText, deriveKey, encryptText, fromBase64, isBase64, isIterationCount, randomBytes, toBase64,
+  type EncryptedText,
+} from './encryption';
+import { isExerciseEntry } from './exercise';
+import { isMealFoodItem } from './nutrition';
+import { isPhotoDataUrl, type PhotoData } from './photos';
+import { SCHEMA_VERSION, isDateKey, migrateAppData } from './storage';
+
+export const BACKUP_FORMAT = 'my-food-diary-backup';
+export const ENCRYPTED_BACKUP_FORMAT = 'my-food-diary-encrypted-backup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: AppData;
+  // Meal photos by id; missing in backups made before photos existed.
+  photos?: PhotoData;
+}
+
+// A whole BackupFile, encrypted with a key derived from a passphrase chosen at export time.
+export interface EncryptedBackupFile extends EncryptedText {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  salt: string;
+  iterations: number;
+}
+
+export type BackupSection = keyof AppData;
+
+export interface BackupIssue {
+  section: BackupSection;
+  key: string;
+  reason: 'invalidDate' | 'invalidEntry';
+}
+
+export type BackupParseResult =
+  | { ok: true; schemaVersion: number; exportedAt: string | null; data: AppData; photos: PhotoData; issues: BackupIssue[] }
+  | { ok: false; error: 'invalidJson' | 'invalidFormat' | 'unsupportedVersion' };
+
+export type ConflictResolution = 'current' | 'imported';
+
+export interface BackupConflict {
+  id: string;
+  section: BackupSection;
+  key: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isMealData = (value: unknown): value is MealData =>
+  isRecord(value) &&
+  typeof value.time === 'string' &&
+  typeof value.menu === 'string' &&
+  (value.rating === null || isFiniteNumber(value.rating)) &&
+  typeof value.notes === 'string' &&
+  Array.isArray(value.items) &&
+  value.items.every(isMealFoodItem) &&
+  Array.isArray(value.photos) &&
+  value.photos.every(id => typeof id === 'string');
+
+export const isDailyLogData = (value: unknown): value is DailyLogData =>
+  isRecord(value) &&
+  isRecord(value.meals) &&
+  Object.values(value.meals).every(isMealData) &&
+  isFiniteNumber(value.water) &&
+  (value.weight === null || isFiniteNumber(value.weight)) &&
+  isFiniteNumber(value.sleep) &&
+  isFiniteNumber(value.energy) &&
+  typeof value.exercise === 'string' &&
+  Array.isArray(value.exercises) && value.exercises.every(isExerciseEntry) &&
+  typeof value.notes === 'string';
+
+export const isWeeklyPlanData = (value: unknown): value is WeeklyPlanData =>
+  isRecord(value) &&
+  typeof value.notes === 'string' &&
+  isRecord(value.days) &&
+  Object.entries(value.days).every(([date, plan]) =>
+    isDateKey(date) &&
+    isRecord(plan) &&
+    Object.values(plan).every(menu => typeof menu === 'string')
+  );
+
+export const createBackup = (data: AppData, photos: PhotoData = {}): BackupFile => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+  photos,
+});
+
+export const getBackupFileName = (date = new Date()) =>
+  `food-diary-backup-${toDateKey(date)}.json`;
+
+export const encryptBackup = async (backup: BackupFile, passphrase: string): Promise<EncryptedBackupFile> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS, ['encrypt']);
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    ...(await encryptText(key, JSON.stringify(backup))),
+  };
+};
+
+export const readEncryptedBackup = (text: string): EncryptedBackupFile | null => {
+  try {
+    const parsed = JSON.parse(text);
+    return isRecord(parsed) && parsed.format === ENCRYPTED_BACKUP_FORMAT &&
+      isBase64(parsed.salt) && isIterationCount(parsed.iterations) && isBase64(parsed.iv) && isBase64(parsed.data)
+      ? parsed as unknown as EncryptedBackupFile
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// The backup's JSON text, ready for parseBackup, or null when the passphrase is wrong or the file is damaged.
+export const decryptBackup = async (file: EncryptedBackupFile, passphrase: string) => {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(file.salt), file.iterations, ['decrypt']);
+    return await decryptText(key, file);
+  } catch {
+    return null;
+  }
+};
+
+const collectSection = <T>(
+  section: BackupSection,
+  source: unknown,
+  isValid: (value: unknown) => value is T,
+  issues: BackupIssue[],
+): Record<string, T> => {
+  const result: Record<string, T> = {};
+  if (!isRecord(source)) return result;
+  Object.entries(source).forEach(([key, value]) => {
+    if (!isDateKey(key)) {
+      issues.push({ section, key, reason: 'invalidDate' });
+    } else if (!isValid(value)) {
+      issues.push({ section, key, reason: 'invalidEntry' });
+    } else {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+export const parseBackup = (text: string): BackupParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'invalidJson' };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || !isRecord(parsed.data)) {
+    return { ok: false, error: 'invalidFormat' };
+  }
+  if (!Number.isInteger(parsed.schemaVersion) || (parsed.schemaVersion as number) < 1) {
+    return { ok: false, error: 'invalidFormat' };
+  }
+  if ((parsed.schemaVersion as number) > SCHEMA_VERSION) {
+    return { ok: false, error: 'unsupportedVersion' };
+  }
+
+  let migrated: Record<keyof AppData, unknown>;
+  try {
+    migrated = migrateAppData(parsed.data, parsed.schemaVersion as number);
+  } catch (error) {
+    console.error(error);
+    return { ok: false, error: 'invalidFormat' };
+  }
+
+  const issues: BackupIssue[] = [];
+  const data: AppData = {
+    daily: collectSection('daily', migrated.daily, isDailyLogData, issues),
+    weekly: collectSection('weekly', migrated.weekly, isWeeklyPlanData, issues),
+  };
+  const photos: PhotoData = isRecord(parsed.photos)
+    ? Object.fromEntries(Object.entries(parsed.photos).filter((entry): entry is [string, string] => isPhotoDataUrl(entry[1])))
+    : {};
+
+  return {
+    ok: true,
+    schemaVersion: parsed.schemaVersion as number,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : null,
+    data,
+    photos,
+    issues,
+  };
+};
+
+export const findConflicts = (current: AppData, incoming: AppData): BackupConflict[] => {
+  const conflicts: BackupConflict[] = [];
+  (['daily', 'weekly'] as BackupSection[]).forEach(section => {
+    Object.keys(incoming[section]).sort().forEach(key => {
+      const existing = current[section][key];
+      if (existing && JSON.stringify(existing) !== JSON.stringify(incoming[section][key])) {
+        conflicts.push({ id: `${section}:${key}`, section, key });
+      }
+    });
+  });
+  return conflicts;
+};
+
+// Entries only present on one side are always kept; conflicting entries default to the imported version.
+export const mergeAppData = (
+  current: AppData,
+  incoming: AppData,
+  resolutions: Record<string, ConflictResolution>,
+): AppData => {
+  const mergeSection = <T>(section: BackupSection, currentEntries: Record<string, T>, incomingEntries: Record<string, T>) => {
+    const merged = { ...currentEntries };
+    Object.entries(incomingEntries).forEach(([key, value]) => {
+      if (!(key in merged) || resolutions[`${section}:${key}`] !== 'current') {
+        merged[key] = value;
+      }
+    });
+    return merged;
+  };
+
+  return {
+    ...current,
+    daily: mergeSection('daily', current.daily, incoming.daily),
+    weekly: mergeSection('weekly', current.weekly, incoming.weekly),
+  };
+};
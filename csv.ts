@@ -0,0 +1,242 @@
+import type { AppData, DailyLogData, MealData, MealType } from './types';
+import { createDefaultDailyLog } from './defaults';
+import { createEmptyMeal, getDefaultMealTime, type MealSlot } from './mealSlots';
+import { isDateKey } from './storage';
+import { getDayNutrients, getMealNutrients } from './nutrition';
+import { getBurnedKcal, getExerciseKcal, getExerciseMinutes } from './exercise';
+import { MAX_WEIGHT_KG, MIN_WEIGHT_KG, getLatestWeight } from './weight';
+
+// Weight is always in kilograms, whatever unit the app displays.
+export const DAY_COLUMNS = ['date', 'weight', 'sleep', 'energy', 'water', 'exercise', 'notes'] as const;
+export const MEAL_COLUMNS = ['date', 'meal', 'time', 'menu', 'rating', 'notes'] as const;
+// Computed from the meal's food items; written on export and ignored on import.
+const MEAL_NUTRITION_COLUMNS = ['kcal', 'protein', 'carbs', 'fat'] as const;
+// Computed from the day's food items and structured exercises; also export-only. Burned and net calories are empty
+// when there is no weigh-in to base the estimate on.
+const DAY_ENERGY_COLUMNS = ['exercise_minutes', 'kcal_eaten', 'kcal_burned', 'kcal_net'] as const;
+// Export-only: one row per structured exercise entry.
+export const EXERCISE_COLUMNS = ['date', 'activity', 'intensity', 'minutes', 'distance_km', 'sets', 'kcal', 'notes'] as const;
+
+export type CsvKind = 'days' | 'meals';
+
+export interface CsvIssue {
+  row: number;
+  reason: 'invalidDate' | 'invalidMeal' | 'invalidNumber';
+}
+
+export type CsvImportResult =
+  | { ok: true; kind: CsvKind; rowCount: number; daily: Record<string, DailyLogUpdate>; issues: CsvIssue[] }
+  | { ok: false; error: 'unknownColumns' | 'empty' };
+
+export interface DailyLogUpdate {
+  fields: Partial<Omit<DailyLogData, 'meals'>>;
+  meals: Partial<Record<MealType, Partial<MealData>>>;
+}
+
+// Excel only detects UTF-8 (and therefore Hangul) when the file starts with a byte order mark.
+const UTF8_BOM = '\uFEFF';
+
+// Spreadsheets run text starting with one of these as a formula; a leading apostrophe makes them show it as text.
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCell = (value: string | number | null) =>
+  value === null ? '' : typeof value === 'number' ? String(value) : FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+// Undoes the apostrophe toCell adds, so exported text imports unchanged.
+const fromCell = (value: string) => value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+export const toCsv = (rows: (string | number | null)[][]) =>
+  UTF8_BOM + rows.map(row => row.map(value => escapeField(toCell(value))).join(',')).join('\r\n') + '\r\n';
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const datesInRange = (daily: AppData['daily'], from: string, to: string) =>
+  Object.keys(daily).filter(date => date >= from && date <= to).sort();
+
+export const exportDaysCsv = (daily: AppData['daily'], from: string, to: string) =>
+  toCsv([
+    [...DAY_COLUMNS, ...DAY_ENERGY_COLUMNS],
+    ...datesInRange(daily, from, to).map(date => {
+      const entry = daily[date];
+      const eaten = getDayNutrients(entry).kcal;
+      const burned = getBurnedKcal(daily, date, entry);
+      return [
+        date, entry.weight, entry.sleep, entry.energy, entry.water, entry.exercise, entry.notes,
+        getExerciseMinutes(entry), Math.round(eaten),
+        burned === null ? null : Math.round(burned), burned === null ? null : Math.round(eaten - burned),
+      ];
+    }),
+  ]);
+
+export const hasExercisesInRange = (daily: AppData['daily'], from: string, to: string) =>
+  datesInRange(daily, from, to).some(date => daily[date].exercises.length > 0);
+
+export const exportExercisesCsv = (daily: AppData['daily'], from: string, to: string) =>
+  toCsv([
+    [...EXERCISE_COLUMNS],
+    ...datesInRange(daily, from, to).flatMap(date => {
+      const weight = getLatestWeight(daily, date);
+      return daily[date].exercises.map(exercise => [
+        date, exercise.activity, exercise.intensity, exercise.durationMinutes, exercise.distanceKm, exercise.sets,
+        weight === null ? null : Math.round(getExerciseKcal(exercise, weight)), exercise.notes,
+      ]);
+    }),
+  ]);
+
+// Meals are written in slot order; hidden or removed slots are still exported when a day has data for them.
+export const exportMealsCsv = (daily: AppData['daily'], from: string, to: string, slots: MealSlot[]) =>
+  toCsv([
+    [...MEAL_COLUMNS, ...MEAL_NUTRITION_COLUMNS],
+    ...datesInRange(daily, from, to).flatMap(date => {
+      const meals = daily[date].meals;
+      const order = [
+        ...slots.filter(slot => !slot.hidden || meals[slot.id]).map(slot => slot.id),
+        ...Object.keys(meals).filter(meal => !slots.some(slot => slot.id === meal)),
+      ];
+      return order.filter(meal => meals[meal]).map(meal => {
+        const mealData = meals[meal];
+        const nutrients = getMealNutrients(mealData);
+        return [
+          date, meal, mealData.time, mealData.menu, mealData.rating, mealData.notes,
+          ...MEAL_NUTRITION_COLUMNS.map(key => Math.round(nutrients[key] * 10) / 10),
+        ];
+      });
+    }),
+  ]);
+
+const parseNumber = (value: string, min: number, max: number) => {
+  const number = Number(value.trim());
+  return value.trim() !== '' && Number.isFinite(number) && number >= min && number <= max ? number : null;
+};
+
+// The meal column accepts a slot id or a slot's custom name.
+const findSlotId = (slots: MealSlot[], value: string): MealType | null => {
+  const name = value.trim().toLowerCase();
+  const slot = slots.find(s => s.id.toLowerCase() === name || (s.name && s.name.trim().toLowerCase() === name));
+  return slot ? slot.id : null;
+};
+
+export const importCsv = (text: string, slots: MealSlot[]): CsvImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { ok: false, error: 'empty' };
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const kind: CsvKind | null =
+    MEAL_COLUMNS.every(column => columns.includes(column)) ? 'meals' :
+    DAY_COLUMNS.every(column => columns.includes(column)) ? 'days' : null;
+  if (!kind) return { ok: false, error: 'unknownColumns' };
+
+  const daily: Record<string, DailyLogUpdate> = {};
+  const issues: CsvIssue[] = [];
+
+  rows.forEach((values, index) => {
+    const row = index + 2;
+    const cell = (column: string) => fromCell(values[columns.indexOf(column)] ?? '');
+    const date = cell('date').trim();
+    if (!isDateKey(date)) {
+      issues.push({ row, reason: 'invalidDate' });
+      return;
+    }
+    const update = daily[date] || { fields: {}, meals: {} };
+
+    if (kind === 'days') {
+      const sleep = parseNumber(cell('sleep'), 0, 24);
+      const energy = parseNumber(cell('energy'), 1, 5);
+      const water = parseNumber(cell('water'), 0, 100);
+      const weight = parseNumber(cell('weight'), MIN_WEIGHT_KG, MAX_WEIGHT_KG);
+      if ((cell('weight').trim() && weight === null) ||
+          (cell('sleep').trim() && sleep === null) ||
+          (cell('energy').trim() && energy === null) ||
+          (cell('water').trim() && water === null)) {
+        issues.push({ row, reason: 'invalidNumber' });
+        return;
+      }
+      update.fields = {
+        ...update.fields,
+        weight,
+        exercise: cell('exercise'),
+        notes: cell('notes'),
+        ...(sleep !== null && { sleep }),
+        ...(energy !== null && { energy: Math.round(energy) }),
+        ...(water !== null && { water: Math.round(water) }),
+      };
+    } else {
+      const meal = findSlotId(slots, cell('meal'));
+      if (!meal) {
+        issues.push({ row, reason: 'invalidMeal' });
+        return;
+      }
+      const rating = parseNumber(cell('rating'), 1, 4);
+      if (cell('rating').trim() && rating === null) {
+        issues.push({ row, reason: 'invalidNumber' });
+        return;
+      }
+      update.meals = {
+        ...update.meals,
+        [meal]: {
+          ...(cell('time').trim() && { time: cell('time').trim() }),
+          menu: cell('menu'),
+          rating: rating === null ? null : Math.round(rating),
+          notes: cell('notes'),
+        },
+      };
+    }
+    daily[date] = update;
+  });
+
+  return { ok: true, kind, rowCount: rows.length, daily, issues };
+};
+
+export const applyCsvImport = (data: AppData, updates: Record<string, DailyLogUpdate>, slots: MealSlot[]): AppData => {
+  const daily = { ...data.daily };
+  Object.entries(updates).forEach(([date, update]) => {
+    const entry = daily[date] || createDefaultDailyLog(slots);
+    const meals = { ...entry.meals };
+    Object.keys(update.meals).forEach(meal => {
+      meals[meal] = { ...(meals[meal] ?? createEmptyMeal(getDefaultMealTime(slots, meal))), ...update.meals[meal] };
+    });
+    daily[date] = { ...entry, ...update.fields, meals };
+  });
+  return { ...data, daily };
+};
@@ -0,0 +1,249 @@
+import type { AppData } from './types';
+import {
+  SCHEMA_VERSION, STORAGE_KEY, createLoadResult, createSafeModeResult, loadAppData, normalizeAppData,
+  type StorageLoadResult,
+} from './storage';
+import { decodeValue, encodeValue, type EncryptedBlob, type EncryptionKeys } from './encryption';
+
+export const DB_NAME = 'foodDiary';
+const DB_VERSION = 2;
+const META_STORE = 'meta';
+// Meal photos are StoredPhotos keyed by photo id, kept apart from the entries so they never go through AppData.
+const PHOTO_STORE = 'photos';
+const ENTRY_STORES: (keyof AppData)[] = ['daily', 'weekly'];
+export const SYNC_CHANNEL = 'foodDiary_sync';
+
+export type AppDataKeys = Record<keyof AppData, string[]>;
+
+export type AppDataChanges = {
+  [Section in keyof AppData]: { put: AppData[Section]; remove: string[] };
+};
+
+export type AppDataEntries = {
+  [Section in keyof AppData]: Record<string, AppData[Section][string] | undefined>;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionToPromise = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+export const openDatabase = (name = DB_NAME) => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available'));
+    return;
+  }
+  const request = window.indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    [...ENTRY_STORES, META_STORE, PHOTO_STORE].forEach(name => {
+      if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+    });
+  };
+  request.onsuccess = () => {
+    // Let a newer version opened in another tab upgrade instead of being blocked by this connection.
+    request.result.onversionchange = () => request.result.close();
+    resolve(request.result);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+export const deleteDatabase = (name: string) => new Promise<void>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    resolve();
+    return;
+  }
+  const request = window.indexedDB.deleteDatabase(name);
+  request.onsuccess = () => resolve();
+  request.onerror = () => reject(request.error);
+});
+
+const readStore = async (db: IDBDatabase, storeName: string) => {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+  return Object.fromEntries(keys.map((key, i) => [String(key), values[i]]));
+};
+
+// Encryption happens before a transaction is opened: awaiting WebCrypto inside one would let it commit early.
+const encodeEntries = async (entries: Record<string, unknown>, keys: EncryptionKeys | null) =>
+  Object.fromEntries(await Promise.all(Object.entries(entries).map(async ([key, value]) => [key, await encodeValue(keys, value)])));
+
+const decodeEntries = async (entries: Record<string, unknown>, keys: EncryptionKeys | null) =>
+  Object.fromEntries(await Promise.all(Object.entries(entries).map(async ([key, value]) => [key, await decodeValue(keys, value)])));
+
+// Rewrites every entry, which also encrypts or decrypts the whole diary when `keys` changed.
+export const replaceAll = async (db: IDBDatabase, data: AppData, keys: EncryptionKeys | null = null) => {
+  const [daily, weekly] = await Promise.all(ENTRY_STORES.map(section => encodeEntries(data[section], keys)));
+  const encoded: Record<string, Record<string, unknown>> = { daily, weekly };
+  const transaction = db.transaction([...ENTRY_STORES, META_STORE], 'readwrite');
+  ENTRY_STORES.forEach(section => {
+    const store = transaction.objectStore(section);
+    store.clear();
+    Object.entries(encoded[section]).forEach(([key, value]) => store.put(value, key));
+  });
+  transaction.objectStore(META_STORE).put(SCHEMA_VERSION, 'schemaVersion');
+  await transactionToPromise(transaction);
+};
+
+// The first load after upgrading moves the localStorage blob into IndexedDB, then frees the localStorage quota.
+const migrateFromLocalStorage = async (
+  db: IDBDatabase, storageKey: string, keys: EncryptionKeys | null
+): Promise<StorageLoadResult> => {
+  const result = await loadAppData(storageKey, keys);
+  await replaceAll(db, result.data, keys);
+  if (result.status !== 'safeMode' || result.recoveryKey) {
+    window.localStorage.removeItem(storageKey);
+  }
+  return result;
+};
+
+export const loadFromDatabase = async (
+  db: IDBDatabase, storageKey = STORAGE_KEY, keys: EncryptionKeys | null = null
+): Promise<StorageLoadResult> => {
+  const schemaVersion = await requestToPromise(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('schemaVersion')
+  );
+  if (typeof schemaVersion !== 'number') {
+    return migrateFromLocalStorage(db, storageKey, keys);
+  }
+
+  const [daily, weekly] = await Promise.all(ENTRY_STORES.map(section => readStore(db, section)));
+  let result: StorageLoadResult;
+  try {
+    const decoded = { daily: await decodeEntries(daily, keys), weekly: await decodeEntries(weekly, keys) };
+    result = await createLoadResult(normalizeAppData(decoded, schemaVersion), storageKey, keys);
+  } catch (error) {
+    console.error(error);
+    return createSafeModeResult(JSON.stringify({ schemaVersion, data: { daily, weekly } }), storageKey);
+  }
+  if (result.status === 'repaired' || schemaVersion < SCHEMA_VERSION) {
+    await replaceAll(db, result.data, keys);
+  }
+  return result;
+};
+
+// Relies on AppData being updated immutably: an entry is rewritten only when its object identity changed.
+export const diffAppData = (previous: AppData, next: AppData): AppDataChanges => {
+  const diffSection = <Section extends keyof AppData>(section: Section) => {
+    const put: Record<string, any> = {};
+    Object.entries(next[section]).forEach(([key, value]) => {
+      if (previous[section][key] !== value) put[key] = value;
+    });
+    const remove = Object.keys(previous[section]).filter(key => !(key in next[section]));
+    return { put: put as AppData[Section], remove };
+  };
+  return { daily: diffSection('daily'), weekly: diffSection('weekly') };
+};
+
+export const getChangedKeys = (changes: AppDataChanges): AppDataKeys => ({
+  daily: [...Object.keys(changes.daily.put), ...changes.daily.remove],
+  weekly: [...Object.keys(changes.weekly.put), ...changes.weekly.remove],
+});
+
+export const writeChanges = async (db: IDBDatabase, changes: AppDataChanges, keys: EncryptionKeys | null = null) => {
+  const [daily, weekly] = await Promise.all(ENTRY_STORES.map(section => encodeEntries(changes[section].put, keys)));
+  const encoded: Record<string, Record<string, unknown>> = { daily, weekly };
+  const transaction = db.transaction(ENTRY_STORES, 'readwrite');
+  ENTRY_STORES.forEach(section => {
+    const store = transaction.objectStore(section);
+    Object.entries(encoded[section]).forEach(([key, value]) => store.put(value, key));
+    changes[section].remove.forEach(key => store.delete(key));
+  });
+  await transactionToPromise(transaction);
+};
+
+export const readEntries = async (
+  db: IDBDatabase, keys: AppDataKeys, encryptionKeys: EncryptionKeys | null = null
+): Promise<AppDataEntries> => {
+  const transaction = db.transaction(ENTRY_STORES, 'readonly');
+  const readSection = async (section: keyof AppData) => {
+    const store = transaction.objectStore(section);
+    const values = await Promise.all(keys[section].map(key => requestToPromise(store.get(key))));
+    return Object.fromEntries(keys[section].map((key, i) => [key, values[i]]));
+  };
+  const [daily, weekly] = await Promise.all([readSection('daily'), readSection('weekly')]);
+  return {
+    daily: await decodeEntries(daily, encryptionKeys) as AppDataEntries['daily'],
+    weekly: await decodeEntries(weekly, encryptionKeys) as AppDataEntries['weekly'],
+  };
+};
+
+export const applyEntries = (data: AppData, entries: AppDataEntries): AppData => {
+  const applySection = <Section extends keyof AppData>(section: Section) => {
+    const next: Record<string, any> = { ...data[section] };
+    Object.entries(entries[section]).forEach(([key, value]) => {
+      if (value === undefined) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+    });
+    return next as AppData[Section];
+  };
+  return { ...data, daily: applySection('daily'), weekly: applySection('weekly') };
+};
+
+// Encrypted like the entries when the diary is (see photos.ts).
+export type StoredPhoto = Blob | EncryptedBlob;
+
+export const putPhoto = async (db: IDBDatabase, id: string, photo: StoredPhoto) => {
+  const transaction = db.transaction(PHOTO_STORE, 'readwrite');
+  transaction.objectStore(PHOTO_STORE).put(photo, id);
+  await transactionToPromise(transaction);
+};
+
+export const getPhoto = (db: IDBDatabase, id: string) =>
+  requestToPromise<StoredPhoto | undefined>(db.transaction(PHOTO_STORE, 'readonly').objectStore(PHOTO_STORE).get(id));
+
+export const getPhotoIds = async (db: IDBDatabase) =>
+  (await requestToPromise(db.transaction(PHOTO_STORE, 'readonly').objectStore(PHOTO_STORE).getAllKeys())).map(String);
+
+export const deletePhotos = async (db: IDBDatabase, ids: string[]) => {
+  const transaction = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = transaction.objectStore(PHOTO_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionToPromise(transaction);
+};
+
+export interface SyncChannel {
+  post: (keys: AppDataKeys) => void;
+  close: () => void;
+}
+
+// Tells other open tabs which entries were written. Falls back to `storage` events where BroadcastChannel is missing.
+export const createSyncChannel = (onMessage: (keys: AppDataKeys) => void, name = SYNC_CHANNEL): SyncChannel => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (e: MessageEvent<AppDataKeys>) => onMessage(e.data);
+    return {
+      post: keys => channel.postMessage(keys),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== name || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).keys);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: keys => {
+      try {
+        window.localStorage.setItem(name, JSON.stringify({ keys, sentAt: Date.now() }));
+      } catch (error) {
+        console.error(error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
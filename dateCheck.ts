@@ -0,0 +1,59 @@
+import type { AppData, DailyLogData } from './types';
+import { isDayLogged } from './analysis';
+import { toDateKey } from './dates';
+
+export interface MisdatedEntry {
+  from: string;
+  to: string;
+}
+
+// The first schema version saved by a version that uses local dates; only data saved before it can be misdated.
+export const LOCAL_DATES_SCHEMA_VERSION = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Ids are only trusted as timestamps inside this window, so a base-36 word in a food id can't pass for one.
+const MIN_ID_TIME = Date.UTC(2020, 0, 1);
+
+// Food item, exercise and photo ids carry the base-36 time they were created (see nutrition.ts, exercise.ts, photos.ts).
+const getCreationTimes = (entry: DailyLogData, now: number) => {
+  const parts = [
+    ...Object.values(entry.meals).flatMap(meal => [
+      ...meal.items.map(item => item.id.split('-').pop()),
+      ...meal.photos.map(id => id.split('-')[1]),
+    ]),
+    ...entry.exercises.map(exercise => exercise.id.split('-').pop()),
+  ];
+  return parts.flatMap(part => {
+    const time = part ? parseInt(part, 36) : NaN;
+    return time >= MIN_ID_TIME && time <= now + DAY_MS ? [time] : [];
+  });
+};
+
+// Earlier versions took "today" from the UTC date, so things logged between local midnight and the UTC date change
+// (or the other way round, west of UTC) landed on the neighbouring day. An entry is flagged when everything in it
+// that was created on a local day other than its key was created while the UTC date matched the key, all on the
+// same local day, and nothing in it was created on the key's own local day. Only things created before `before`, when
+// data from an earlier version was first loaded, are looked at; anything added since was dated correctly.
+export const findMisdatedEntries = (daily: AppData['daily'], before: number, now = Date.now()): MisdatedEntry[] =>
+  Object.keys(daily).sort().flatMap(date => {
+    const targets = new Set<string>();
+    let confirmed = false;
+    getCreationTimes(daily[date], now).filter(time => time < before).forEach(time => {
+      const created = new Date(time);
+      const local = toDateKey(created);
+      if (local === date) confirmed = true;
+      else if (created.toISOString().split('T')[0] === date) targets.add(local);
+    });
+    const [to] = [...targets];
+    return !confirmed && targets.size === 1 && !isDayLogged(daily[to]) ? [{ from: date, to }] : [];
+  });
+
+export const moveMisdatedEntries = (data: AppData, entries: MisdatedEntry[]): AppData => {
+  const daily = { ...data.daily };
+  entries.forEach(({ from, to }) => {
+    if (!daily[from] || isDayLogged(daily[to])) return;
+    daily[to] = daily[from];
+    delete daily[from];
+  });
+  return { ...data, daily };
+};
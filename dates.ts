@@ -0,0 +1,41 @@
+// Date keys ("2026-10-19") name calendar days in the user's own time zone. Deriving them with toISOString() gives
+// the UTC day instead, which is off by one for part of every day anywhere but UTC.
+
+// 0 = Sunday, 1 = Monday, matching Date#getDay().
+export type WeekStart = 0 | 1;
+
+export const WEEK_START_OPTIONS: WeekStart[] = [1, 0];
+export const DEFAULT_WEEK_START: WeekStart = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local midnight of the day, for display and for getting back to a Date.
+export const parseDateKey = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getTodayDateString = (now = new Date()) => toDateKey(now);
+
+// Arithmetic on the keys themselves runs in UTC, where no day is 23 or 25 hours long.
+const toUtcTime = (date: string) => new Date(date + 'T00:00:00Z').getTime();
+
+export const addDays = (date: string, days: number) =>
+  new Date(toUtcTime(date) + days * DAY_MS).toISOString().split('T')[0];
+
+export const getDaysBetween = (from: string, to: string) => Math.round((toUtcTime(to) - toUtcTime(from)) / DAY_MS);
+
+export const getDayOfWeek = (date: string) => new Date(toUtcTime(date)).getUTCDay();
+
+export const getWeekStartDate = (date: string, weekStart: WeekStart) =>
+  addDays(date, -((getDayOfWeek(date) - weekStart + 7) % 7));
+
+// The week under `weekStart` that shares the most days with the week keyed by `key` under any start day.
+export const getOverlappingWeekStart = (key: string, weekStart: WeekStart) => getWeekStartDate(addDays(key, 3), weekStart);
+
+// Sunday-first lists (like the day name translations) in the order of a week starting on `weekStart`.
+export const orderByWeekStart = <T>(items: T[], weekStart: WeekStart) => [...items.slice(weekStart), ...items.slice(0, weekStart)];
@@ -0,0 +1,7 @@
+import type { DailyLogData } from './types';
+import { BUILT_IN_MEAL_SLOTS, createEmptyMeal, type MealSlot } from './mealSlots';
+
+export const createDefaultDailyLog = (slots: MealSlot[] = BUILT_IN_MEAL_SLOTS): DailyLogData => ({
+  meals: Object.fromEntries(slots.map(slot => [slot.id, createEmptyMeal(slot.defaultTime)])),
+  water: 0, weight: null, sleep: 8, energy: 3, exercise: '', exercises: [], notes: ''
+});
@@ -0,0 +1,183 @@
+// Optional encryption of the diary at rest. Entries are encrypted with a random data key (AES-GCM); the data key is
+// stored wrapped with a key derived from the user's passphrase (PBKDF2), so only someone with the passphrase can read
+// the diary. Nothing is ever sent anywhere: forgetting the passphrase means the diary can't be recovered.
+
+export const ENCRYPTION_KEY = 'foodDiary_encryption';
+export const PBKDF2_ITERATIONS = 600000;
+// Stored and imported iteration counts are capped, so a tampered file can't make unlocking run for hours.
+export const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 10;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedText {
+  iv: string;
+  data: string;
+}
+
+export interface EncryptedValue extends EncryptedText {
+  // Which data key encrypted it (see EncryptionKeys).
+  keyId: string;
+}
+
+// Binary data such as photos, kept as an ArrayBuffer: base64 would make it a third larger.
+export interface EncryptedBlob {
+  keyId: string;
+  iv: string;
+  type: string;
+  data: ArrayBuffer;
+}
+
+export interface WrappedKey extends EncryptedText {
+  id: string;
+}
+
+// Stored per profile in localStorage. The first key is the current one.
+export interface EncryptionSettings {
+  salt: string;
+  iterations: number;
+  keys: WrappedKey[];
+}
+
+// Unlocked data keys, kept in memory only. After a passphrase change the older keys stay readable until everything
+// written with them has been rewritten (see dropOldKeys).
+export interface EncryptionKeys {
+  currentId: string;
+  keys: Record<string, CryptoKey>;
+}
+
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // In chunks: spreading a large backup into one call would overflow the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export const isBase64 = (value: unknown): value is string =>
+  typeof value === 'string' && value.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(value);
+
+export const isIterationCount = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_PBKDF2_ITERATIONS;
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number, usages: KeyUsage[]) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, usages
+  );
+};
+
+export const encryptText = async (key: CryptoKey, text: string): Promise<EncryptedText> => {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Rejects when the key is wrong or the data was tampered with.
+export const decryptText = async (key: CryptoKey, { iv, data }: EncryptedText) =>
+  decoder.decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data)));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isEncryptedValue = (value: unknown): value is EncryptedValue =>
+  isRecord(value) && Object.keys(value).length === 3 &&
+  typeof value.keyId === 'string' && typeof value.iv === 'string' && typeof value.data === 'string';
+
+export const isEncryptionSettings = (value: unknown): value is EncryptionSettings =>
+  isRecord(value) && isBase64(value.salt) && isIterationCount(value.iterations) &&
+  Array.isArray(value.keys) && value.keys.length > 0;
+
+const createDataKey = async () => ({
+  id: `key-${Date.now().toString(36)}`,
+  key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']),
+});
+
+const wrapKeys = async (keys: EncryptionKeys, passphrase: string): Promise<EncryptionSettings> => {
+  const salt = randomBytes(SALT_BYTES);
+  const wrappingKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS, ['wrapKey', 'unwrapKey']);
+  const ids = [keys.currentId, ...Object.keys(keys.keys).filter(id => id !== keys.currentId)];
+  const wrapped = await Promise.all(ids.map(async id => {
+    const iv = randomBytes(IV_BYTES);
+    const data = await crypto.subtle.wrapKey('raw', keys.keys[id], wrappingKey, { name: 'AES-GCM', iv });
+    return { id, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }));
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, keys: wrapped };
+};
+
+export const setUpEncryption = async (passphrase: string) => {
+  const dataKey = await createDataKey();
+  const keys: EncryptionKeys = { currentId: dataKey.id, keys: { [dataKey.id]: dataKey.key } };
+  return { keys, settings: await wrapKeys(keys, passphrase) };
+};
+
+// A new passphrase comes with a new data key; the caller then re-encrypts the diary with it and drops the old keys.
+export const changePassphrase = async (keys: EncryptionKeys, passphrase: string) => {
+  const dataKey = await createDataKey();
+  const next: EncryptionKeys = { currentId: dataKey.id, keys: { ...keys.keys, [dataKey.id]: dataKey.key } };
+  return { keys: next, settings: await wrapKeys(next, passphrase) };
+};
+
+// Keeps only the current key, once nothing is encrypted with the others any more.
+export const dropOldKeys = async (keys: EncryptionKeys, passphrase: string) => {
+  const next: EncryptionKeys = { currentId: keys.currentId, keys: { [keys.currentId]: keys.keys[keys.currentId] } };
+  return { keys: next, settings: await wrapKeys(next, passphrase) };
+};
+
+// Null when the passphrase is wrong: AES-GCM refuses to unwrap with a key derived from anything else.
+// Damaged settings give null too.
+export const unlockEncryption = async (settings: EncryptionSettings, passphrase: string): Promise<EncryptionKeys | null> => {
+  try {
+    const wrappingKey = await deriveKey(passphrase, fromBase64(settings.salt), settings.iterations, ['wrapKey', 'unwrapKey']);
+    const keys = await Promise.all(settings.keys.map(async wrapped => [
+      wrapped.id,
+      await crypto.subtle.unwrapKey(
+        'raw', fromBase64(wrapped.data), wrappingKey, { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+        { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']
+      ),
+    ] as const));
+    return { currentId: settings.keys[0].id, keys: Object.fromEntries(keys) };
+  } catch {
+    return null;
+  }
+};
+
+// Values are encrypted while keys are given. Plain values are still read as they are, so a diary that was only partly
+// rewritten when encryption was turned on or off stays readable.
+export const encodeValue = async (keys: EncryptionKeys | null, value: unknown): Promise<unknown> =>
+  keys ? { keyId: keys.currentId, ...(await encryptText(keys.keys[keys.currentId], JSON.stringify(value))) } : value;
+
+export const decodeValue = async (keys: EncryptionKeys | null, value: unknown): Promise<unknown> => {
+  if (!isEncryptedValue(value)) return value;
+  const key = keys?.keys[value.keyId];
+  if (!key) throw new Error(`Encryption key ${value.keyId} is not unlocked`);
+  return JSON.parse(await decryptText(key, value));
+};
+
+const isEncryptedBlob = (value: unknown): value is EncryptedBlob =>
+  isRecord(value) && typeof value.keyId === 'string' && typeof value.iv === 'string' && typeof value.type === 'string' &&
+  value.data instanceof ArrayBuffer;
+
+// Like encodeValue and decodeValue, for blobs.
+export const encodeBlob = async (keys: EncryptionKeys | null, blob: Blob): Promise<Blob | EncryptedBlob> => {
+  if (!keys) return blob;
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.keys[keys.currentId], await blob.arrayBuffer());
+  return { keyId: keys.currentId, iv: toBase64(iv), type: blob.type, data };
+};
+
+export const decodeBlob = async (keys: EncryptionKeys | null, value: Blob | EncryptedBlob): Promise<Blob> => {
+  if (!isEncryptedBlob(value)) return value;
+  const key = keys?.keys[value.keyId];
+  if (!key) throw new Error(`Encryption key ${value.keyId} is not unlocked`);
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, value.data);
+  return new Blob([data], { type: value.type });
+};
@@ -0,0 +1,85 @@
+import type { AppData, DailyLogData, ExerciseActivity, ExerciseEntry, ExerciseIntensity } from './types';
+import { isDayLogged, type SeriesPoint } from './analysis';
+import { getLatestWeight } from './weight';
+
+export const EXERCISE_ACTIVITIES: ExerciseActivity[] = [
+  'walking', 'running', 'cycling', 'swimming', 'hiking', 'strength', 'yoga', 'dance', 'sports', 'other',
+];
+
+export const EXERCISE_INTENSITIES: ExerciseIntensity[] = ['light', 'moderate', 'vigorous'];
+
+export type ExerciseMeasure = 'distance' | 'sets' | null;
+
+export type ExerciseSeriesMetric = 'minutes' | 'kcal';
+
+// Metabolic equivalents per intensity, rounded from the Compendium of Physical Activities.
+export const EXERCISE_METS: Record<ExerciseActivity, Record<ExerciseIntensity, number>> = {
+  walking: { light: 2.8, moderate: 3.5, vigorous: 5.0 },
+  running: { light: 7.0, moderate: 9.8, vigorous: 11.5 },
+  cycling: { light: 4.0, moderate: 6.8, vigorous: 10.0 },
+  swimming: { light: 5.8, moderate: 7.0, vigorous: 9.8 },
+  hiking: { light: 5.3, moderate: 6.0, vigorous: 7.8 },
+  strength: { light: 3.5, moderate: 5.0, vigorous: 6.0 },
+  yoga: { light: 2.5, moderate: 3.0, vigorous: 4.0 },
+  dance: { light: 4.5, moderate: 5.5, vigorous: 7.3 },
+  sports: { light: 4.0, moderate: 6.5, vigorous: 8.0 },
+  other: { light: 3.0, moderate: 4.5, vigorous: 6.0 },
+};
+
+export const EXERCISE_MEASURES: Record<ExerciseActivity, ExerciseMeasure> = {
+  walking: 'distance',
+  running: 'distance',
+  cycling: 'distance',
+  swimming: 'distance',
+  hiking: 'distance',
+  strength: 'sets',
+  yoga: null,
+  dance: null,
+  sports: null,
+  other: null,
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOptionalAmount = (value: unknown) => value === null || (isFiniteNumber(value) && value >= 0);
+
+export const isExerciseEntry = (value: unknown): value is ExerciseEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'string' &&
+    EXERCISE_ACTIVITIES.includes(entry.activity as ExerciseActivity) &&
+    isFiniteNumber(entry.durationMinutes) && entry.durationMinutes > 0 &&
+    EXERCISE_INTENSITIES.includes(entry.intensity as ExerciseIntensity) &&
+    isOptionalAmount(entry.distanceKm) &&
+    isOptionalAmount(entry.sets) &&
+    typeof entry.notes === 'string';
+};
+
+export const createExerciseEntry = (fields: Omit<ExerciseEntry, 'id'>): ExerciseEntry => ({
+  id: `exercise-${Date.now().toString(36)}`,
+  ...fields,
+});
+
+// MET × body weight × hours; the estimate includes the resting calories that would have been burned anyway.
+export const getExerciseKcal = (entry: ExerciseEntry, weightKg: number) =>
+  EXERCISE_METS[entry.activity][entry.intensity] * weightKg * (entry.durationMinutes / 60);
+
+export const getExerciseMinutes = (entry: DailyLogData) =>
+  entry.exercises.reduce((sum, exercise) => sum + exercise.durationMinutes, 0);
+
+// Null when there is no weigh-in on or before the day to base the estimate on.
+export const getBurnedKcal = (daily: AppData['daily'], date: string, entry: DailyLogData) => {
+  if (!entry.exercises.length) return 0;
+  const weight = getLatestWeight(daily, date);
+  return weight === null ? null : entry.exercises.reduce((sum, exercise) => sum + getExerciseKcal(exercise, weight), 0);
+};
+
+// Logged days without exercise count as zero so rest days show up in the trend.
+export const buildExerciseSeries = (daily: AppData['daily'], dates: string[], metric: ExerciseSeriesMetric): SeriesPoint[] =>
+  dates.flatMap(date => {
+    const entry = daily[date];
+    if (!isDayLogged(entry)) return [];
+    const value = metric === 'minutes' ? getExerciseMinutes(entry) : getBurnedKcal(daily, date, entry);
+    return value === null ? [] : [{ date, value }];
+  });
@@ -0,0 +1,60 @@
+import type { Nutrients } from './types';
+
+export const CUP_ML = 500;
+
+export interface MacroSplit {
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface Goals {
+  calories: number;
+  // Percent of calories from each macro; always sums to 100.
+  macroSplit: MacroSplit;
+  waterMl: number;
+  sleepHours: number;
+  targetWeight: number | null;
+}
+
+// Goals apply from `effectiveFrom` until the next revision, so editing them never changes how past days are scored.
+export interface GoalsRevision {
+  effectiveFrom: string;
+  goals: Goals;
+}
+
+export const DEFAULT_GOALS: Goals = {
+  calories: 2000,
+  macroSplit: { protein: 20, carbs: 50, fat: 30 },
+  waterMl: 4000,
+  sleepHours: 8,
+  targetWeight: null,
+};
+
+const KCAL_PER_GRAM: MacroSplit = { protein: 4, carbs: 4, fat: 9 };
+
+export const getGoalsForDate = (revisions: GoalsRevision[], date: string): Goals => {
+  const applicable = revisions
+    .filter(revision => revision.effectiveFrom <= date)
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  return applicable.length ? applicable[applicable.length - 1].goals : DEFAULT_GOALS;
+};
+
+export const setGoalsFrom = (revisions: GoalsRevision[], effectiveFrom: string, goals: Goals): GoalsRevision[] =>
+  [...revisions.filter(revision => revision.effectiveFrom !== effectiveFrom), { effectiveFrom, goals }]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+export const getMacroTargets = (goals: Goals): Omit<Nutrients, 'kcal'> => ({
+  protein: (goals.calories * goals.macroSplit.protein) / 100 / KCAL_PER_GRAM.protein,
+  carbs: (goals.calories * goals.macroSplit.carbs) / 100 / KCAL_PER_GRAM.carbs,
+  fat: (goals.calories * goals.macroSplit.fat) / 100 / KCAL_PER_GRAM.fat,
+});
+
+export const validateGoals = (goals: Goals) => {
+  const { protein, carbs, fat } = goals.macroSplit;
+  return goals.calories > 0 &&
+    protein >= 0 && carbs >= 0 && fat >= 0 && protein + carbs + fat === 100 &&
+    goals.waterMl > 0 &&
+    goals.sleepHours > 0 && goals.sleepHours <= 24 &&
+    (goals.targetWeight === null || goals.targetWeight > 0);
+};
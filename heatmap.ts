@@ -0,0 +1,83 @@
+import type { AppData } from './types';
+import { getMetricValue, isDayLogged, isMealLogged } from './analysis';
+import { addDays } from './dates';
+import { getMeal, type MealSlot } from './mealSlots';
+
+export const HEATMAP_METRICS = ['logged', 'meals', 'water', 'sleep', 'energy', 'weightDelta', 'rating'] as const;
+
+export type HeatmapMetric = typeof HEATMAP_METRICS[number];
+
+export interface HeatmapScale {
+  min: number;
+  max: number;
+  // Diverging scales color values below and above zero differently (weight down vs. up).
+  diverging: boolean;
+}
+
+// How far back to look for the previous weigh-in when computing a day's weight change.
+const WEIGHT_LOOKBACK_DAYS = 7;
+
+export const getPreviousWeight = (daily: AppData['daily'], date: string) => {
+  for (let i = 1; i <= WEIGHT_LOOKBACK_DAYS; i++) {
+    const entry = daily[addDays(date, -i)];
+    const weight = entry ? getMetricValue(entry, 'weight') : null;
+    if (weight !== null) return weight;
+  }
+  return null;
+};
+
+export const getHeatmapValue = (
+  daily: AppData['daily'], date: string, metric: HeatmapMetric, slots: MealSlot[]
+): number | null => {
+  const entry = daily[date];
+  if (!isDayLogged(entry)) return null;
+  switch (metric) {
+    case 'logged':
+      return 1;
+    case 'meals':
+      return slots.length ? slots.filter(slot => isMealLogged(getMeal(entry, slot))).length / slots.length : null;
+    case 'water':
+      return entry.water;
+    case 'sleep':
+    case 'energy':
+    case 'rating':
+      return getMetricValue(entry, metric);
+    case 'weightDelta': {
+      const weight = getMetricValue(entry, 'weight');
+      const previous = getPreviousWeight(daily, date);
+      return weight === null || previous === null ? null : weight - previous;
+    }
+  }
+};
+
+export const getHeatmapScale = (metric: HeatmapMetric, waterGoalCups: number): HeatmapScale => {
+  switch (metric) {
+    case 'logged':
+    case 'meals':
+      return { min: 0, max: 1, diverging: false };
+    case 'water':
+      return { min: 0, max: Math.max(1, waterGoalCups), diverging: false };
+    case 'sleep':
+      return { min: 4, max: 9, diverging: false };
+    case 'energy':
+      return { min: 1, max: 5, diverging: false };
+    case 'rating':
+      return { min: 1, max: 4, diverging: false };
+    case 'weightDelta':
+      return { min: -1, max: 1, diverging: true };
+  }
+};
+
+// 1-4 from the low to the high end of the scale; negative levels for the lower half of a diverging scale.
+export const getHeatmapLevel = (value: number, scale: HeatmapScale) => {
+  if (scale.diverging) {
+    if (value === 0) return 0;
+    const ratio = Math.min(Math.abs(value) / Math.max(Math.abs(scale.min), scale.max), 1);
+    return Math.sign(value) * (Math.round(ratio * 3) + 1);
+  }
+  const ratio = Math.min(Math.max((value - scale.min) / (scale.max - scale.min), 0), 1);
+  return Math.round(ratio * 3) + 1;
+};
+
+export const getHeatmapClass = (level: number | null) =>
+  level === null ? '' : level < 0 ? `heat-neg-${-level}` : `heat-${level}`;
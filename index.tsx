@@ -1,5 +1,97 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
+import type {
+  MealType, MealData, DailyLogData, WeeklyPlanData, AppData, MealFoodItem, Nutrients, ExerciseActivity, ExerciseEntry, ExerciseIntensity,
+} from './types';
+import {
+  createBackup, getBackupFileName, parseBackup, findConflicts, mergeAppData, encryptBackup, readEncryptedBackup, decryptBackup,
+  type BackupParseResult, type ConflictResolution, type EncryptedBackupFile,
+} from './backup';
+import { createDefaultDailyLog } from './defaults';
+import {
+  WEEK_START_OPTIONS, DEFAULT_WEEK_START, addDays, toDateKey, parseDateKey, getTodayDateString, getDayOfWeek, getWeekStartDate,
+  getOverlappingWeekStart, orderByWeekStart,
+  type WeekStart,
+} from './dates';
+import { LOCAL_DATES_SCHEMA_VERSION, findMisdatedEntries, moveMisdatedEntries, type MisdatedEntry } from './dateCheck';
+import {
+  STORAGE_KEY, clearRecoveryCopies, createEmptyAppData, createSafeModeResult, loadAppData, saveAppData, type StorageLoadResult,
+} from './storage';
+import {
+  DB_NAME, SYNC_CHANNEL, openDatabase, deleteDatabase, loadFromDatabase, diffAppData, getChangedKeys, writeChanges, readEntries,
+  applyEntries, replaceAll, createSyncChannel,
+  type AppDataChanges, type AppDataEntries, type AppDataKeys, type SyncChannel,
+} from './database';
+import {
+  TRASH_KEY, TRASH_RETENTION_OPTIONS, DEFAULT_TRASH_RETENTION_DAYS, applyHistoryStep, createDeletedEntry, getExpiresAt,
+  loadTrash, purgeExpired, restoreDeletedEntry, saveTrash, type DeletedEntry,
+} from './trash';
+import {
+  BUILT_IN_FOODS, searchFoods, createMealFoodItem, createCustomFood, getFoodName, getServingLabel,
+  getItemNutrients, getMealNutrients, getDayNutrients,
+  type Food,
+} from './nutrition';
+import {
+  CUP_ML, getGoalsForDate, setGoalsFrom, getMacroTargets, validateGoals,
+  type Goals, type GoalsRevision,
+} from './goals';
+import {
+  exportDaysCsv, exportMealsCsv, exportExercisesCsv, hasExercisesInRange, importCsv, applyCsvImport, type CsvImportResult,
+} from './csv';
+import {
+  BUILT_IN_MEAL_SLOTS, isBuiltInMealType, getVisibleSlots, createMealSlot, moveSlot, getMeal,
+  type MealSlot,
+} from './mealSlots';
+import { comparePlan, getAdherence, logAsPlanned, regroupWeeklyPlans } from './planComparison';
+import {
+  RECIPE_DRAG_TYPE, createRecipe, parseList, getRecipeTags, filterRecipes, getPastMenus, getMenuSuggestions,
+  type Recipe, type PastMenu, type MenuSuggestion,
+} from './recipes';
+import {
+  SHOPPING_CATEGORIES, EMPTY_SHOPPING_LIST, buildShoppingList, createManualItem, toggleChecked, regroupShoppingLists,
+  type ShoppingCategory, type ShoppingListState,
+} from './shoppingList';
+import { EMPTY_FILTERS, searchDiary, type SearchFilters, type SearchResult } from './search';
+import {
+  HEATMAP_METRICS, getHeatmapValue, getHeatmapScale, getHeatmapLevel, getHeatmapClass, getPreviousWeight,
+  type HeatmapMetric, type HeatmapScale,
+} from './heatmap';
+import {
+  ANALYSIS_RANGES, getRangeStart, isDayLogged, isMealLogged, getMetricValue, getRangeDates, buildMetricSeries, buildMealTimeSeries, formatHours, getSeriesStats, getLoggingStats,
+  type AnalysisMetric, type SeriesPoint, type SeriesStats,
+} from './analysis';
+import {
+  WEIGHT_UNITS, toDisplayWeight, formatWeightValue, formatWeight, formatWeightChange, parseWeightInput,
+  getWeightPoints, getWeightTrend, getWeeklyRate, projectGoalDate, getLatestWeight,
+  type WeightUnit,
+} from './weight';
+import {
+  EXERCISE_ACTIVITIES, EXERCISE_INTENSITIES, EXERCISE_MEASURES, createExerciseEntry, getExerciseKcal, getBurnedKcal,
+  getExerciseMinutes, buildExerciseSeries,
+} from './exercise';
+import { computeInsights, GOOD_SLEEP_HOURS, LATE_MEAL_HOUR, MIN_GROUP_SIZE, type Insight } from './insights';
+import {
+  isPhotoStorageAvailable, selectPhotoDatabase, savePhoto, loadPhoto, getReferencedPhotoIds, prunePhotos, exportPhotos, importPhotos,
+  rewritePhotos, type PhotoData,
+} from './photos';
+import {
+  PROFILES_KEY, ACTIVE_PROFILE_KEY, UNLOCKED_PROFILES_KEY, DEFAULT_PROFILE_ID, DEFAULT_PROFILE, PROFILE_COLORS, PIN_PATTERN,
+  createProfile, scopeStorageKey, isScopedToProfile, createPin, verifyPin, mergeWeeklyPlans,
+  type Profile,
+} from './profiles';
+import {
+  DEFAULT_REMINDER_SETTINGS, WATER_INTERVAL_OPTIONS, getDueReminders, getMealReminder, pruneShownReminders,
+  type MealReminder, type ReminderSettings,
+} from './reminders';
+import {
+  ENCRYPTION_KEY, MIN_PASSPHRASE_LENGTH, isEncryptionSettings, setUpEncryption, changePassphrase, dropOldKeys, unlockEncryption,
+  type EncryptionKeys,
+} from './encryption';
+import {
+  SYNC_SETTINGS_KEY, SYNC_STATE_KEY, SYNC_QUEUE_KEY, SYNC_SECTIONS, DEFAULT_SYNC_SETTINGS, createSyncState, createSyncQueue,
+  createDeviceId, getPendingCount, getSyncErrorKind, isSyncConfigured, queueChanges, queueAll, mergeQueuedDuringSync, runSync,
+  type SyncErrorKind, type SyncSettings,
+} from './sync';
 
 const translations = {
   en: {
@@ -20,20 +112,398 @@ const translations = {
     tasteRating: "Taste Rating",
     notes: "Notes",
     waterIntake: "Water Intake (500ml per cup)",
-    weight: "Weight (kg)",
+    weight: "Weight",
     sleep: "Sleep (hours)",
     energyLevel: "Energy Level",
     exercise: "Today's Exercise",
     weeklyNotes: "Weekly Notes",
-    confirmReset: "Are you sure you want to reset the data for this view? This cannot be undone.",
+    confirmReset: "Are you sure you want to reset the data for this view? You can restore it from Recently Deleted.",
     dayNames: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
     energyLevels: ["Very Low", "Low", "Good", "High", "Very High"],
     today: "Today",
     prevDay: "Prev Day",
     nextDay: "Next Day",
-    weightTrend: "30-Day Weight Trend",
-    notEnoughData: "Not enough data to display the chart. Please enter weight data for at least two different days in the last month.",
-    weightAxisLabel: "Weight (kg)",
+    prevWeek: "Prev Week",
+    nextWeek: "Next Week",
+    thisWeek: "This Week",
+    weekOf: "Week of",
+    planMode: "Plan",
+    compareMode: "Plan vs Actual",
+    adherence: "Weekly Adherence",
+    adherenceDetail: "{matched} of {due} planned meals eaten as planned so far",
+    adherenceNone: "No planned meals are due yet this week.",
+    statusMatch: "As planned",
+    statusDeviation: "Different",
+    statusUnlogged: "Not logged",
+    statusUpcoming: "Upcoming",
+    statusUnplanned: "Not planned",
+    planned: "Plan",
+    eaten: "Ate",
+    logAsPlanned: "Log as planned",
+    recipes: "Recipes",
+    recipesDesc: "Saved meals show up as suggestions when you type a menu. Drag one into a weekly plan slot to plan it.",
+    recipesEmpty: "No recipes yet.",
+    recipe: "Recipe",
+    newRecipe: "New Recipe",
+    editRecipe: "Edit Recipe",
+    recipeName: "Name",
+    recipeServings: "Servings",
+    servingsCount: "{count} servings",
+    recipeTags: "Tags",
+    recipeTagsHint: "e.g. breakfast, quick",
+    ingredients: "Ingredients",
+    ingredientsHint: "One per line",
+    addRecipe: "Add Recipe",
+    saveRecipe: "Save Recipe",
+    edit: "Edit",
+    searchRecipes: "Search recipes",
+    confirmDeleteRecipe: "Delete the recipe \"{name}\"?",
+    loggedTimes: "Logged {count}×",
+    dragRecipeHint: "Drag a recipe into a meal slot:",
+    shoppingList: "Shopping List",
+    shoppingListDesc: "Built from this week's plan. Planned recipes add their ingredients per serving; other meals are listed as written.",
+    shoppingListEmpty: "Plan some meals for this week or add items below.",
+    addShoppingItem: "Add item",
+    category: "Category",
+    add: "Add",
+    uncheckAll: "Uncheck All",
+    categoryProduce: "Produce",
+    categoryMeatSeafood: "Meat & Seafood",
+    categoryDairyEggs: "Dairy & Eggs",
+    categoryGrains: "Grains & Bakery",
+    categoryPantry: "Pantry",
+    categoryOther: "Other",
+    search: "Search",
+    searchPlaceholder: "Search meals, notes and plans (e.g. kimchi, ㄱㅊㅉㄱ)",
+    mealFilter: "Meal",
+    allMeals: "All meals",
+    ratingFilter: "Rating",
+    anyRating: "Any rating",
+    clearFilters: "Clear filters",
+    searchResults: "{count} results",
+    noSearchResults: "Nothing matches your search.",
+    moreResults: "{count} more results. Narrow the search to see them.",
+    fieldMenu: "Menu",
+    fieldMealNotes: "Meal notes",
+    fieldExercise: "Exercise",
+    fieldNotes: "Notes",
+    fieldPlan: "Plan",
+    fieldWeeklyNotes: "Weekly notes",
+    monthView: "Month",
+    yearView: "Year",
+    heatmapMetric: "Color by",
+    metricLogged: "Logged days",
+    metricMeals: "Meals logged",
+    metricWater: "Water (cups)",
+    metricSleep: "Sleep (hours)",
+    metricEnergy: "Energy",
+    metricWeightDelta: "Weight change",
+    metricRating: "Meal rating",
+    legendDown: "Down",
+    legendUp: "Up",
+    summaryMeals: "Meals: {logged}/{total}",
+    summaryWater: "Water: {count} cups",
+    summarySleep: "Sleep: {hours} h",
+    summaryEnergy: "Energy: {level}/5",
+    summaryWeight: "Weight: {weight}",
+    summaryRating: "Rating: {rating}/4",
+    mealPhotos: "Photos",
+    takePhoto: "Take Photo",
+    choosePhotos: "Choose Photos",
+    savingPhotos: "Saving…",
+    viewPhoto: "View photo",
+    removePhoto: "Remove photo",
+    closePhoto: "Close",
+    mealPhotoAlt: "{meal} photo",
+    photoSaveFailed: "Some photos couldn't be saved. Try a different image.",
+    photosUnavailable: "Photos can't be stored in this browser.",
+    morePhotos: "+{count}",
+    backupPhotosFailed: "Photos couldn't be read, so the backup only contains your entries.",
+    backupExportFailed: "The backup couldn't be created. Please try again.",
+    importPhotosFailed: "Entries were imported, but the photos in the backup couldn't be saved.",
+    reminders: "Reminders",
+    remindersDesc: "Get a notification when a meal, water or your weigh-in hasn't been logged yet. A reminder is skipped once that entry is filled in for today. Reminders work while the diary is open, even in a background tab.",
+    enableReminders: "Enable reminders",
+    remindersUnsupported: "This browser doesn't support notifications.",
+    remindersDenied: "Notifications are blocked for this site. Allow them in your browser settings to get reminders.",
+    mealReminders: "Meals",
+    minutesAfter: "min after {time}",
+    waterReminders: "Water",
+    waterReminderNudge: "Nudge me until I reach my water goal",
+    waterReminderEvery: "Every",
+    minutesOption: "{minutes} min",
+    reminderFrom: "From",
+    reminderUntil: "Until",
+    weighInReminder: "Weigh-in",
+    weighInReminderDesc: "Remind me to log my weight in the morning",
+    reminderTime: "Time",
+    testReminder: "Send Test Notification",
+    reminderTestBody: "Reminders are on.",
+    reminderMealTitle: "Did you log {meal}?",
+    reminderMealBody: "{meal} isn't in today's diary yet.",
+    reminderWaterTitle: "Time for some water",
+    reminderWaterBody: "{cups} of {goal} cups so far today.",
+    reminderWeighInTitle: "Morning weigh-in",
+    reminderWeighInBody: "Log today's weight while you remember.",
+    installApp: "Install App",
+    updateAvailable: "A new version of the diary is available. Reload to start using it.",
+    reloadToUpdate: "Reload",
+    weightUnit: "Weight unit",
+    weightOutOfRange: "Enter a weight between {min} and {max} {unit}.",
+    weightTrendLine: "Trend",
+    weeklyRate: "Weekly change",
+    weeklyRateValue: "{rate}/week",
+    projectedGoalDate: "Projected goal date",
+    projectionNeedsWeek: "Log your weight for at least a week to see a trend rate.",
+    projectionNoTarget: "Set a target weight in Settings to see a projected date.",
+    projectionNotHeading: "Not heading toward your target at the current rate.",
+    exerciseActivity: "Activity",
+    exerciseIntensity: "Intensity",
+    exerciseDuration: "Duration (min)",
+    exerciseDistance: "Distance (km)",
+    exerciseSets: "Sets",
+    exerciseSetsValue: "{sets} sets",
+    exerciseNotes: "Notes (optional)",
+    addExercise: "Add Exercise",
+    noExercises: "No exercise logged yet.",
+    activityWalking: "Walking",
+    activityRunning: "Running",
+    activityCycling: "Cycling",
+    activitySwimming: "Swimming",
+    activityHiking: "Hiking",
+    activityStrength: "Strength training",
+    activityYoga: "Yoga / stretching",
+    activityDance: "Dance",
+    activitySports: "Ball sports",
+    activityOther: "Other",
+    intensityLight: "Light",
+    intensityModerate: "Moderate",
+    intensityVigorous: "Vigorous",
+    caloriesEaten: "Eaten",
+    caloriesBurned: "burned",
+    netCalories: "Net",
+    burnedNeedsWeight: "Log your weight to estimate calories burned.",
+    legacyExercise: "Earlier notes",
+    exerciseMinutes: "Exercise (min)",
+    activeDays: "Active days",
+    activeDaysOf: "{active} of {logged} logged days",
+    caloriesBurnedChart: "Calories Burned",
+    minutesAxisLabel: "Minutes",
+    summaryExercise: "Exercise: {minutes} min",
+    calendarSettings: "Calendar",
+    weekStartsOn: "Week starts on",
+    weekStartsOnDesc: "Used by the weekly planner and the calendar. Existing plans and shopping lists move to the matching weeks.",
+    weekStartMonday: "Monday",
+    weekStartSunday: "Sunday",
+    dateCheckFound: "{count} days look like they were saved one day off by an earlier version that used UTC instead of your local date.",
+    dateCheckMove: "Move to Correct Dates",
+    dateCheckKeep: "Keep as Is",
+    profiles: "Profiles",
+    profilesDesc: "Everyone on this device can keep a separate diary with its own goals, language and settings.",
+    defaultProfileName: "Me",
+    switchProfile: "Switch profile",
+    profileName: "Name",
+    profileColor: "Color",
+    profileLanguage: "Language",
+    addProfile: "Add Profile",
+    deleteProfile: "Delete This Profile",
+    confirmDeleteProfile: "Delete {name}'s profile and its whole diary from this device? This can't be undone.",
+    setPin: "Set PIN",
+    changePin: "Change PIN",
+    removePin: "Remove PIN",
+    pinInvalid: "A PIN is 4 to 8 digits.",
+    pinSaved: "PIN saved. It will be asked for when someone switches to this profile.",
+    pinProtected: "Protected with a PIN",
+    profileLocked: "{name}'s diary is locked",
+    enterPin: "PIN",
+    wrongPin: "That PIN isn't right.",
+    unlock: "Unlock",
+    copyPlan: "Copy to Another Profile",
+    copyPlanDesc: "Adds this week's plan to another profile. Meals planned here replace theirs for the same day and meal; the rest of their plan stays.",
+    copyPlanTo: "Copy Plan",
+    planCopied: "Copied this week's plan to {name}.",
+    planCopyFailed: "Couldn't copy the plan. The other profile's diary could not be opened.",
+    sync: "Sync",
+    syncDesc: "Keep this diary in sync with your other devices through a sync server. Edits made offline are sent once you're back online; when the same day was changed on two devices, the latest change to each field is kept. To host your own server, run sync-server.mjs from the app's folder with Node.",
+    syncServer: "Server address",
+    syncDiary: "Diary name",
+    syncToken: "Access token (optional)",
+    turnOnSync: "Turn On Sync",
+    turnOffSync: "Turn Off Sync",
+    syncNow: "Sync Now",
+    syncing: "Syncing...",
+    syncedAt: "Last synced {time}.",
+    syncNever: "Not synced yet.",
+    syncPending: "{count} changes waiting to sync.",
+    syncOffline: "You're offline. Changes will sync when you're back online.",
+    syncUnauthorized: "The server didn't accept the access token. Turn sync off and on again with the right one.",
+    syncFailed: "Couldn't sync with the server. It will try again shortly.",
+    encryption: "Encryption",
+    encryptionDesc: "Encrypt this diary on this device with a passphrase. It's asked for every time the diary is opened. There is no way to recover a forgotten passphrase. Meal photos are encrypted too; settings aren't.",
+    encryptionOnDesc: "This diary and its meal photos are encrypted on this device; settings aren't. Enter the current passphrase to change it or to turn encryption off.",
+    passphrase: "Passphrase",
+    newPassphrase: "New passphrase",
+    currentPassphrase: "Current passphrase",
+    confirmPassphrase: "Repeat passphrase",
+    passphraseTooShort: "Use at least {count} characters.",
+    passphraseMismatch: "The passphrases don't match.",
+    wrongPassphrase: "That passphrase isn't right.",
+    turnOnEncryption: "Encrypt Diary",
+    turnOffEncryption: "Turn Off Encryption",
+    changePassphrase: "Change Passphrase",
+    encryptionOn: "The diary is now encrypted.",
+    encryptionOff: "Encryption is off. The diary is stored in plain text again.",
+    passphraseChanged: "Passphrase changed and the diary re-encrypted.",
+    encryptionFailed: "Something went wrong while rewriting the diary. Nothing was lost; please try again.",
+    confirmDisableEncryption: "Store this diary in plain text again?",
+    diaryEncrypted: "{name}'s diary is encrypted",
+    unlocking: "Unlocking...",
+    encryptBackup: "Encrypt the backup with a passphrase",
+    backupPassphrase: "Backup passphrase",
+    backupEncrypted: "This backup is encrypted. Enter the passphrase it was saved with.",
+    weightTrend: "Weight Trend",
+    notEnoughData: "Not enough data to display this chart. Log it on at least two days in the selected range.",
+    weightAxisLabel: "Weight ({unit})",
+    dataManagement: "Data",
+    exportBackup: "Export Backup",
+    exportBackupDesc: "Download all daily logs, weekly plans and meal photos as a JSON file you can restore later.",
+    downloadBackup: "Download Backup",
+    importBackup: "Import Backup",
+    importBackupDesc: "Restore daily logs, weekly plans and meal photos from a backup file.",
+    backupCounts: "{days} days, {weeks} weeks, {photos} photos",
+    importErrorInvalidJson: "The selected file is not valid JSON.",
+    importErrorInvalidFormat: "The selected file is not a My Food Diary backup.",
+    importErrorUnsupportedVersion: "This backup was made with a newer version of the app and cannot be imported.",
+    importIssues: "Skipped invalid entries",
+    issueInvalidDate: "invalid date",
+    issueInvalidEntry: "invalid entry",
+    importMode: "Import Mode",
+    importModeMerge: "Merge with my current data",
+    importModeReplace: "Replace all my current data",
+    conflicts: "Conflicts",
+    conflictsDesc: "These dates have different entries in your diary and in the backup. Choose which one to keep.",
+    noConflicts: "No conflicting dates.",
+    currentVersion: "Current",
+    importedVersion: "Backup",
+    keepCurrent: "Keep current",
+    useImported: "Use backup",
+    applyImport: "Apply Import",
+    cancel: "Cancel",
+    confirmReplace: "All of your current diary data will be replaced with the backup. Continue?",
+    importDone: "Backup imported successfully.",
+    emptyEntry: "(empty)",
+    plannedMeals: "{count} planned meals",
+    csvTitle: "Spreadsheet (CSV)",
+    csvDesc: "Export daily logs for a date range to open in Excel or Google Sheets, or import a CSV file with the same columns.",
+    dateFrom: "From",
+    dateTo: "To",
+    includeMeals: "Also export one row per meal",
+    includeExercises: "Also export one row per exercise",
+    exportCsv: "Export CSV",
+    importCsv: "Import CSV",
+    csvErrorEmpty: "The selected CSV file is empty.",
+    csvErrorUnknownColumns: "The CSV header does not match the exported day or meal columns.",
+    csvImportSummary: "{rows} rows for {days} days. Imported values overwrite the same fields of existing days.",
+    csvRow: "Row {row}",
+    issueInvalidMeal: "unknown meal",
+    issueInvalidNumber: "value out of range",
+    storageSafeMode: "Your saved diary could not be read, so the app started with an empty diary. The original data has been kept and can be downloaded.",
+    storageRepaired: "Some saved entries were in an outdated or damaged format: {repaired} were repaired and {dropped} could not be recovered.",
+    downloadRecovery: "Download Original Data",
+    dismiss: "Dismiss",
+    storageSaveFailed: "Your latest changes could not be saved. Your device storage may be full; export a backup to avoid losing data.",
+    retry: "Retry",
+    loading: "Loading your diary...",
+    undo: "Undo",
+    redo: "Redo",
+    recentlyDeleted: "Recently Deleted",
+    trashRetention: "Keep deleted entries for",
+    retentionDays: "{days} days",
+    trashEmpty: "Nothing has been deleted recently.",
+    deletedOn: "Deleted {date}",
+    expiresIn: "removed in {days} days",
+    restore: "Restore",
+    deleteForever: "Delete Permanently",
+    confirmRestoreOverwrite: "There is already an entry for this date. Replace it with the deleted version?",
+    confirmDeleteForever: "Permanently delete this entry? This cannot be undone.",
+    foodItems: "Foods & Portions",
+    searchFood: "Search foods (e.g. bibimbap, 김치찌개)",
+    servings: "servings",
+    addCustomFood: "Add \"{name}\" as a custom food",
+    newCustomFood: "New Custom Food",
+    foodName: "Name",
+    servingSize: "Serving (e.g. 1 bowl)",
+    save: "Save",
+    remove: "Remove",
+    mealTotal: "Meal total",
+    dailyNutrition: "Nutrition",
+    noFoodItems: "No foods added yet.",
+    kcal: "kcal",
+    protein: "Protein",
+    carbs: "Carbs",
+    fat: "Fat",
+    myFoods: "My Foods",
+    myFoodsEmpty: "You haven't added any custom foods yet. Search for a food in a meal card to add one.",
+    confirmDeleteFood: "Delete this custom food? Meals already logged with it keep their nutrition values.",
+    settings: "Settings",
+    goals: "Goals",
+    goalsDesc: "Goals apply from the chosen date onward. Earlier days keep the goals that were in effect at the time.",
+    effectiveFrom: "Effective from",
+    calorieBudget: "Daily calories (kcal)",
+    macroSplit: "Macro split (%)",
+    waterGoal: "Water (ml)",
+    sleepGoal: "Sleep (hours)",
+    targetWeight: "Target weight ({unit}, optional)",
+    macroSumError: "The macro split must add up to 100% (currently {sum}%).",
+    goalsInvalid: "Please enter a positive value for every goal.",
+    saveGoals: "Save Goals",
+    goalsSaved: "Goals saved.",
+    goalHistory: "Goal History",
+    goalsFrom: "From {date}",
+    goalProgress: "Goals",
+    calories: "Calories",
+    water: "Water",
+    sleepShort: "Sleep",
+    weightToGo: "{diff} to your target of {target}",
+    weightReached: "Target weight of {target} reached",
+    mealSlots: "Meal Slots",
+    mealSlotsDesc: "Rename, reorder or hide meals, or add your own, such as a second snack or a late-night meal. Hidden slots keep their logged data.",
+    slotName: "Name",
+    defaultTime: "Default time",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    hideSlot: "Hide",
+    showSlot: "Show",
+    addSlot: "Add Slot",
+    resetSlots: "Restore Defaults",
+    lastDays: "{days} days",
+    customRange: "Custom",
+    rangeFrom: "From",
+    rangeTo: "To",
+    invalidRange: "The start date must be on or before the end date.",
+    summaryStats: "Summary",
+    loggingCompleteness: "Logging completeness",
+    loggedDaysOf: "{logged} of {total} days logged",
+    currentStreak: "Current streak",
+    longestStreak: "Longest",
+    daysCount: "{count} days",
+    statsMin: "min",
+    statsMax: "max",
+    mealRating: "Meal Rating",
+    mealTiming: "Meal Timing",
+    hoursAxisLabel: "Hours",
+    insights: "Insights",
+    insightsDesc: "Patterns in the selected range, strongest first. A pattern needs at least {min} days on each side to be shown, and it doesn't prove cause and effect.",
+    insightsNone: "No clear patterns yet. Keep logging, or choose a longer range.",
+    insightSleepEnergy: "On days after {hours}+ hours of sleep your energy averaged {a}, compared with {b} after shorter nights.",
+    insightLateMealWeight: "After a last meal at {hour}:00 or later, your weight changed by {a} the next day on average, compared with {b} after earlier meals.",
+    insightRatingEnergyPositive: "Days with better-rated meals tend to be followed by more energy the next day.",
+    insightRatingEnergyNegative: "Days with better-rated meals tend to be followed by less energy the next day.",
+    insightWaterEnergyPositive: "You tend to have more energy on days you drink more water.",
+    insightWaterEnergyNegative: "You tend to have less energy on days you drink more water.",
+    insightStrong: "Strong pattern",
+    insightModerate: "Moderate pattern",
+    basedOnDays: "based on {count} days",
   },
   ko: {
     title: "나의 식단 일기",
@@ -53,64 +523,424 @@ const translations = {
     tasteRating: "맛 평가",
     notes: "느낀 점",
     waterIntake: "물 섭취량 (컵당 500ml)",
-    weight: "체중 (kg)",
+    weight: "체중",
     sleep: "수면 (시간)",
     energyLevel: "에너지 레벨",
     exercise: "오늘의 운동",
     weeklyNotes: "주간 메모",
-    confirmReset: "이 화면의 데이터를 초기화하시겠습니까? 이 작업은 되돌릴 수 없습니다.",
+    confirmReset: "이 화면의 데이터를 초기화하시겠습니까? 최근 삭제됨에서 복원할 수 있습니다.",
     dayNames: ["일", "월", "화", "수", "목", "금", "토"],
     energyLevels: ["매우 낮음", "낮음", "좋음", "높음", "매우 높음"],
     today: "오늘",
     prevDay: "이전 날",
     nextDay: "다음 날",
-    weightTrend: "최근 30일 체중 변화",
-    notEnoughData: "차트를 표시할 데이터가 부족합니다. 최근 30일 동안 최소 2일 이상의 체중을 입력해주세요.",
-    weightAxisLabel: "체중 (kg)",
+    prevWeek: "이전 주",
+    nextWeek: "다음 주",
+    thisWeek: "이번 주",
+    weekOf: "주 선택",
+    planMode: "계획",
+    compareMode: "계획 대비 실제",
+    adherence: "주간 계획 달성률",
+    adherenceDetail: "지금까지 계획한 식사 {due}끼 중 {matched}끼를 계획대로 먹었습니다",
+    adherenceNone: "이번 주에 아직 지난 계획 식사가 없습니다.",
+    statusMatch: "계획대로",
+    statusDeviation: "다르게 먹음",
+    statusUnlogged: "기록 없음",
+    statusUpcoming: "예정",
+    statusUnplanned: "계획 없음",
+    planned: "계획",
+    eaten: "실제",
+    logAsPlanned: "계획대로 기록",
+    recipes: "레시피",
+    recipesDesc: "저장한 식사는 메뉴를 입력할 때 추천으로 나타납니다. 주간 계획 칸으로 끌어다 놓아 계획할 수도 있습니다.",
+    recipesEmpty: "저장된 레시피가 없습니다.",
+    recipe: "레시피",
+    newRecipe: "새 레시피",
+    editRecipe: "레시피 수정",
+    recipeName: "이름",
+    recipeServings: "인분",
+    servingsCount: "{count}인분",
+    recipeTags: "태그",
+    recipeTagsHint: "예: 아침, 간단",
+    ingredients: "재료",
+    ingredientsHint: "한 줄에 하나씩",
+    addRecipe: "레시피 추가",
+    saveRecipe: "레시피 저장",
+    edit: "수정",
+    searchRecipes: "레시피 검색",
+    confirmDeleteRecipe: "\"{name}\" 레시피를 삭제할까요?",
+    loggedTimes: "{count}번 기록",
+    dragRecipeHint: "레시피를 식사 칸으로 끌어다 놓으세요:",
+    shoppingList: "장보기 목록",
+    shoppingListDesc: "이번 주 계획으로 만든 목록입니다. 계획한 레시피는 1인분 기준 재료로, 다른 식사는 입력한 그대로 표시됩니다.",
+    shoppingListEmpty: "이번 주 식사를 계획하거나 아래에서 항목을 추가하세요.",
+    addShoppingItem: "항목 추가",
+    category: "분류",
+    add: "추가",
+    uncheckAll: "모두 체크 해제",
+    categoryProduce: "채소·과일",
+    categoryMeatSeafood: "육류·해산물",
+    categoryDairyEggs: "유제품·달걀",
+    categoryGrains: "곡물·빵",
+    categoryPantry: "양념·가공식품",
+    categoryOther: "기타",
+    search: "검색",
+    searchPlaceholder: "식사, 메모, 계획 검색 (예: 김치찌개, ㄱㅊㅉㄱ)",
+    mealFilter: "식사",
+    allMeals: "모든 식사",
+    ratingFilter: "만족도",
+    anyRating: "모든 만족도",
+    clearFilters: "필터 초기화",
+    searchResults: "검색 결과 {count}건",
+    noSearchResults: "검색 결과가 없습니다.",
+    moreResults: "결과가 {count}건 더 있습니다. 검색어를 좁혀 보세요.",
+    fieldMenu: "메뉴",
+    fieldMealNotes: "식사 메모",
+    fieldExercise: "운동",
+    fieldNotes: "메모",
+    fieldPlan: "계획",
+    fieldWeeklyNotes: "주간 메모",
+    monthView: "월",
+    yearView: "연",
+    heatmapMetric: "색상 기준",
+    metricLogged: "기록한 날",
+    metricMeals: "식사 기록",
+    metricWater: "물 (잔)",
+    metricSleep: "수면 (시간)",
+    metricEnergy: "에너지",
+    metricWeightDelta: "체중 변화",
+    metricRating: "식사 만족도",
+    legendDown: "감소",
+    legendUp: "증가",
+    summaryMeals: "식사: {logged}/{total}",
+    summaryWater: "물: {count}잔",
+    summarySleep: "수면: {hours}시간",
+    summaryEnergy: "에너지: {level}/5",
+    summaryWeight: "체중: {weight}",
+    summaryRating: "만족도: {rating}/4",
+    mealPhotos: "사진",
+    takePhoto: "사진 촬영",
+    choosePhotos: "사진 선택",
+    savingPhotos: "저장 중…",
+    viewPhoto: "사진 보기",
+    removePhoto: "사진 삭제",
+    closePhoto: "닫기",
+    mealPhotoAlt: "{meal} 사진",
+    photoSaveFailed: "일부 사진을 저장하지 못했습니다. 다른 이미지를 선택해 주세요.",
+    photosUnavailable: "이 브라우저에서는 사진을 저장할 수 없습니다.",
+    morePhotos: "+{count}",
+    backupPhotosFailed: "사진을 읽지 못해 백업에는 기록만 포함되었습니다.",
+    backupExportFailed: "백업을 만들지 못했습니다. 다시 시도해 주세요.",
+    importPhotosFailed: "기록은 가져왔지만 백업의 사진은 저장하지 못했습니다.",
+    reminders: "알림",
+    remindersDesc: "식사, 물, 체중이 아직 기록되지 않았을 때 알림을 받습니다. 오늘 해당 항목을 기록하면 알림은 건너뜁니다. 다이어리가 열려 있는 동안(백그라운드 탭 포함) 동작합니다.",
+    enableReminders: "알림 사용",
+    remindersUnsupported: "이 브라우저는 알림을 지원하지 않습니다.",
+    remindersDenied: "이 사이트의 알림이 차단되어 있습니다. 브라우저 설정에서 알림을 허용해 주세요.",
+    mealReminders: "식사",
+    minutesAfter: "분 후 ({time} 기준)",
+    waterReminders: "물",
+    waterReminderNudge: "물 목표를 채울 때까지 알려 주기",
+    waterReminderEvery: "간격",
+    minutesOption: "{minutes}분",
+    reminderFrom: "시작",
+    reminderUntil: "종료",
+    weighInReminder: "체중",
+    weighInReminderDesc: "아침에 체중 기록 알려 주기",
+    reminderTime: "시간",
+    testReminder: "테스트 알림 보내기",
+    reminderTestBody: "알림이 켜져 있습니다.",
+    reminderMealTitle: "{meal} 기록하셨나요?",
+    reminderMealBody: "오늘 {meal}이(가) 아직 기록되지 않았습니다.",
+    reminderWaterTitle: "물 마실 시간이에요",
+    reminderWaterBody: "오늘 {goal}컵 중 {cups}컵 마셨습니다.",
+    reminderWeighInTitle: "아침 체중 기록",
+    reminderWeighInBody: "잊기 전에 오늘 체중을 기록하세요.",
+    installApp: "앱 설치",
+    updateAvailable: "새 버전이 있습니다. 새로고침하면 적용됩니다.",
+    reloadToUpdate: "새로고침",
+    weightUnit: "체중 단위",
+    weightOutOfRange: "{min}~{max} {unit} 사이의 체중을 입력해 주세요.",
+    weightTrendLine: "추세",
+    weeklyRate: "주간 변화",
+    weeklyRateValue: "주당 {rate}",
+    projectedGoalDate: "예상 목표 달성일",
+    projectionNeedsWeek: "추세를 보려면 최소 일주일 동안 체중을 기록해 주세요.",
+    projectionNoTarget: "설정에서 목표 체중을 정하면 예상 달성일을 볼 수 있습니다.",
+    projectionNotHeading: "현재 추세로는 목표 체중에 가까워지지 않고 있습니다.",
+    exerciseActivity: "활동",
+    exerciseIntensity: "강도",
+    exerciseDuration: "시간 (분)",
+    exerciseDistance: "거리 (km)",
+    exerciseSets: "세트",
+    exerciseSetsValue: "{sets}세트",
+    exerciseNotes: "메모 (선택)",
+    addExercise: "운동 추가",
+    noExercises: "기록된 운동이 없습니다.",
+    activityWalking: "걷기",
+    activityRunning: "달리기",
+    activityCycling: "자전거",
+    activitySwimming: "수영",
+    activityHiking: "등산",
+    activityStrength: "근력 운동",
+    activityYoga: "요가 / 스트레칭",
+    activityDance: "댄스",
+    activitySports: "구기 종목",
+    activityOther: "기타",
+    intensityLight: "가볍게",
+    intensityModerate: "보통",
+    intensityVigorous: "격렬하게",
+    caloriesEaten: "섭취",
+    caloriesBurned: "소모",
+    netCalories: "순 칼로리",
+    burnedNeedsWeight: "체중을 기록하면 소모 칼로리를 추정할 수 있습니다.",
+    legacyExercise: "이전 메모",
+    exerciseMinutes: "운동 (분)",
+    activeDays: "운동한 날",
+    activeDaysOf: "기록한 {logged}일 중 {active}일",
+    caloriesBurnedChart: "소모 칼로리",
+    minutesAxisLabel: "분",
+    summaryExercise: "운동: {minutes}분",
+    calendarSettings: "달력",
+    weekStartsOn: "한 주의 시작",
+    weekStartsOnDesc: "주간 계획과 달력에 적용됩니다. 기존 계획과 장보기 목록은 해당하는 주로 옮겨집니다.",
+    weekStartMonday: "월요일",
+    weekStartSunday: "일요일",
+    dateCheckFound: "이전 버전이 현지 날짜 대신 UTC 날짜를 사용해 {count}일의 기록이 하루 어긋나게 저장된 것으로 보입니다.",
+    dateCheckMove: "올바른 날짜로 옮기기",
+    dateCheckKeep: "그대로 두기",
+    profiles: "프로필",
+    profilesDesc: "이 기기를 함께 쓰는 사람마다 목표, 언어, 설정이 따로 있는 별도의 다이어리를 쓸 수 있습니다.",
+    defaultProfileName: "나",
+    switchProfile: "프로필 전환",
+    profileName: "이름",
+    profileColor: "색상",
+    profileLanguage: "언어",
+    addProfile: "프로필 추가",
+    deleteProfile: "이 프로필 삭제",
+    confirmDeleteProfile: "{name} 프로필과 다이어리 전체를 이 기기에서 삭제할까요? 되돌릴 수 없습니다.",
+    setPin: "PIN 설정",
+    changePin: "PIN 변경",
+    removePin: "PIN 제거",
+    pinInvalid: "PIN은 4~8자리 숫자입니다.",
+    pinSaved: "PIN이 저장되었습니다. 다른 사람이 이 프로필로 전환할 때 PIN을 묻습니다.",
+    pinProtected: "PIN으로 보호됨",
+    profileLocked: "{name}의 다이어리가 잠겨 있습니다",
+    enterPin: "PIN",
+    wrongPin: "PIN이 올바르지 않습니다.",
+    unlock: "잠금 해제",
+    copyPlan: "다른 프로필로 복사",
+    copyPlanDesc: "이번 주 식단 계획을 다른 프로필에 추가합니다. 같은 날짜와 식사는 여기 계획으로 바뀌고, 나머지 계획은 그대로 남습니다.",
+    copyPlanTo: "계획 복사",
+    planCopied: "이번 주 계획을 {name} 프로필로 복사했습니다.",
+    planCopyFailed: "계획을 복사하지 못했습니다. 다른 프로필의 다이어리를 열 수 없습니다.",
+    sync: "동기화",
+    syncDesc: "동기화 서버를 통해 이 다이어리를 다른 기기와 동기화합니다. 오프라인에서 한 수정은 다시 연결되면 전송되고, 같은 날짜를 두 기기에서 고친 경우 항목마다 가장 최근 수정이 남습니다. 직접 서버를 운영하려면 앱 폴더에서 Node로 sync-server.mjs를 실행하세요.",
+    syncServer: "서버 주소",
+    syncDiary: "다이어리 이름",
+    syncToken: "접근 토큰 (선택)",
+    turnOnSync: "동기화 켜기",
+    turnOffSync: "동기화 끄기",
+    syncNow: "지금 동기화",
+    syncing: "동기화 중...",
+    syncedAt: "마지막 동기화: {time}",
+    syncNever: "아직 동기화하지 않았습니다.",
+    syncPending: "동기화 대기 중인 변경 {count}개",
+    syncOffline: "오프라인 상태입니다. 다시 연결되면 변경 사항이 동기화됩니다.",
+    syncUnauthorized: "서버가 접근 토큰을 받아들이지 않았습니다. 동기화를 껐다가 올바른 토큰으로 다시 켜세요.",
+    syncFailed: "서버와 동기화하지 못했습니다. 잠시 후 다시 시도합니다.",
+    encryption: "암호화",
+    encryptionDesc: "이 기기에서 다이어리를 암호로 암호화합니다. 다이어리를 열 때마다 암호를 묻습니다. 잊어버린 암호는 복구할 수 없습니다. 식사 사진도 함께 암호화되며, 설정은 암호화되지 않습니다.",
+    encryptionOnDesc: "이 다이어리와 식사 사진은 이 기기에서 암호화되어 있습니다. 설정은 암호화되지 않습니다. 암호를 바꾸거나 암호화를 끄려면 현재 암호를 입력하세요.",
+    passphrase: "암호",
+    newPassphrase: "새 암호",
+    currentPassphrase: "현재 암호",
+    confirmPassphrase: "암호 다시 입력",
+    passphraseTooShort: "{count}자 이상 입력하세요.",
+    passphraseMismatch: "암호가 서로 다릅니다.",
+    wrongPassphrase: "암호가 올바르지 않습니다.",
+    turnOnEncryption: "다이어리 암호화",
+    turnOffEncryption: "암호화 끄기",
+    changePassphrase: "암호 변경",
+    encryptionOn: "다이어리가 암호화되었습니다.",
+    encryptionOff: "암호화를 껐습니다. 다이어리가 다시 일반 텍스트로 저장됩니다.",
+    passphraseChanged: "암호를 바꾸고 다이어리를 다시 암호화했습니다.",
+    encryptionFailed: "다이어리를 다시 저장하는 중 문제가 생겼습니다. 잃어버린 내용은 없으니 다시 시도해 주세요.",
+    confirmDisableEncryption: "이 다이어리를 다시 일반 텍스트로 저장할까요?",
+    diaryEncrypted: "{name}의 다이어리가 암호화되어 있습니다",
+    unlocking: "잠금 해제 중...",
+    encryptBackup: "백업을 암호로 암호화",
+    backupPassphrase: "백업 암호",
+    backupEncrypted: "암호화된 백업입니다. 저장할 때 사용한 암호를 입력하세요.",
+    weightTrend: "체중 변화",
+    notEnoughData: "차트를 표시할 데이터가 부족합니다. 선택한 기간 동안 최소 2일 이상 기록해 주세요.",
+    weightAxisLabel: "체중 ({unit})",
+    dataManagement: "데이터",
+    exportBackup: "백업 내보내기",
+    exportBackupDesc: "모든 일일 기록, 주간 계획과 식사 사진을 나중에 복원할 수 있는 JSON 파일로 저장합니다.",
+    downloadBackup: "백업 다운로드",
+    importBackup: "백업 가져오기",
+    importBackupDesc: "백업 파일에서 일일 기록, 주간 계획과 식사 사진을 복원합니다.",
+    backupCounts: "{days}일, {weeks}주, 사진 {photos}장",
+    importErrorInvalidJson: "선택한 파일이 올바른 JSON 형식이 아닙니다.",
+    importErrorInvalidFormat: "선택한 파일은 나의 식단 일기 백업 파일이 아닙니다.",
+    importErrorUnsupportedVersion: "더 최신 버전의 앱에서 만든 백업이라 가져올 수 없습니다.",
+    importIssues: "건너뛴 잘못된 항목",
+    issueInvalidDate: "잘못된 날짜",
+    issueInvalidEntry: "잘못된 데이터",
+    importMode: "가져오기 방식",
+    importModeMerge: "현재 데이터와 병합",
+    importModeReplace: "현재 데이터를 모두 교체",
+    conflicts: "충돌",
+    conflictsDesc: "아래 날짜는 현재 일기와 백업의 내용이 다릅니다. 유지할 쪽을 선택하세요.",
+    noConflicts: "충돌하는 날짜가 없습니다.",
+    currentVersion: "현재",
+    importedVersion: "백업",
+    keepCurrent: "현재 유지",
+    useImported: "백업 사용",
+    applyImport: "가져오기 적용",
+    cancel: "취소",
+    confirmReplace: "현재 일기 데이터가 모두 백업으로 교체됩니다. 계속하시겠습니까?",
+    importDone: "백업을 성공적으로 가져왔습니다.",
+    emptyEntry: "(비어 있음)",
+    plannedMeals: "계획된 식사 {count}개",
+    csvTitle: "스프레드시트 (CSV)",
+    csvDesc: "기간을 선택해 일일 기록을 엑셀이나 구글 스프레드시트용 CSV로 내보내거나, 같은 열 구성의 CSV 파일을 가져옵니다.",
+    dateFrom: "시작일",
+    dateTo: "종료일",
+    includeMeals: "식사별 행도 함께 내보내기",
+    includeExercises: "운동별 행도 함께 내보내기",
+    exportCsv: "CSV 내보내기",
+    importCsv: "CSV 가져오기",
+    csvErrorEmpty: "선택한 CSV 파일이 비어 있습니다.",
+    csvErrorUnknownColumns: "CSV 머리글이 내보낸 일별 또는 식사별 열과 일치하지 않습니다.",
+    csvImportSummary: "{days}일에 대한 {rows}개 행. 가져온 값은 기존 기록의 같은 항목을 덮어씁니다.",
+    csvRow: "{row}행",
+    issueInvalidMeal: "알 수 없는 식사",
+    issueInvalidNumber: "허용 범위를 벗어난 값",
+    storageSafeMode: "저장된 일기를 읽을 수 없어 빈 일기로 시작했습니다. 원본 데이터는 보관되어 있으며 다운로드할 수 있습니다.",
+    storageRepaired: "일부 저장된 항목이 오래되었거나 손상된 형식이었습니다: {repaired}개는 복구했고 {dropped}개는 복구하지 못했습니다.",
+    downloadRecovery: "원본 데이터 다운로드",
+    dismiss: "닫기",
+    storageSaveFailed: "최근 변경 사항을 저장하지 못했습니다. 기기 저장 공간이 부족할 수 있으니 데이터 손실을 막기 위해 백업을 내보내 주세요.",
+    retry: "다시 시도",
+    loading: "일기를 불러오는 중...",
+    undo: "실행 취소",
+    redo: "다시 실행",
+    recentlyDeleted: "최근 삭제됨",
+    trashRetention: "삭제된 항목 보관 기간",
+    retentionDays: "{days}일",
+    trashEmpty: "최근에 삭제된 항목이 없습니다.",
+    deletedOn: "{date} 삭제",
+    expiresIn: "{days}일 후 영구 삭제",
+    restore: "복원",
+    deleteForever: "영구 삭제",
+    confirmRestoreOverwrite: "이 날짜에 이미 기록이 있습니다. 삭제된 기록으로 교체하시겠습니까?",
+    confirmDeleteForever: "이 항목을 영구 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.",
+    foodItems: "음식 및 섭취량",
+    searchFood: "음식 검색 (예: 비빔밥, kimchi)",
+    servings: "인분",
+    addCustomFood: "\"{name}\"을(를) 내 음식으로 추가",
+    newCustomFood: "새 음식 추가",
+    foodName: "이름",
+    servingSize: "1회 제공량 (예: 1그릇)",
+    save: "저장",
+    remove: "삭제",
+    mealTotal: "식사 합계",
+    dailyNutrition: "영양 정보",
+    noFoodItems: "추가된 음식이 없습니다.",
+    kcal: "kcal",
+    protein: "단백질",
+    carbs: "탄수화물",
+    fat: "지방",
+    myFoods: "내 음식",
+    myFoodsEmpty: "아직 추가한 음식이 없습니다. 식사 카드에서 음식을 검색해 추가해 보세요.",
+    confirmDeleteFood: "이 음식을 삭제하시겠습니까? 이미 기록된 식사의 영양 정보는 유지됩니다.",
+    settings: "설정",
+    goals: "목표",
+    goalsDesc: "목표는 선택한 날짜부터 적용됩니다. 이전 날짜에는 당시의 목표가 그대로 유지됩니다.",
+    effectiveFrom: "적용 시작일",
+    calorieBudget: "하루 칼로리 (kcal)",
+    macroSplit: "탄단지 비율 (%)",
+    waterGoal: "물 (ml)",
+    sleepGoal: "수면 (시간)",
+    targetWeight: "목표 체중 ({unit}, 선택)",
+    macroSumError: "영양소 비율의 합이 100%가 되어야 합니다 (현재 {sum}%).",
+    goalsInvalid: "모든 목표에 0보다 큰 값을 입력해 주세요.",
+    saveGoals: "목표 저장",
+    goalsSaved: "목표를 저장했습니다.",
+    goalHistory: "목표 변경 기록",
+    goalsFrom: "{date}부터",
+    goalProgress: "목표 달성",
+    calories: "칼로리",
+    water: "물",
+    sleepShort: "수면",
+    weightToGo: "목표 체중 {target}까지 {diff}",
+    weightReached: "목표 체중 {target} 달성",
+    mealSlots: "식사 구성",
+    mealSlotsDesc: "식사 이름과 순서를 바꾸거나 숨기고, 두 번째 간식이나 야식처럼 새 식사를 추가할 수 있습니다. 숨긴 식사의 기록은 그대로 유지됩니다.",
+    slotName: "이름",
+    defaultTime: "기본 시간",
+    moveUp: "위로",
+    moveDown: "아래로",
+    hideSlot: "숨기기",
+    showSlot: "보이기",
+    addSlot: "식사 추가",
+    resetSlots: "기본값으로 복원",
+    lastDays: "{days}일",
+    customRange: "직접 선택",
+    rangeFrom: "시작",
+    rangeTo: "종료",
+    invalidRange: "시작일은 종료일과 같거나 그 이전이어야 합니다.",
+    summaryStats: "요약",
+    loggingCompleteness: "기록 완성도",
+    loggedDaysOf: "{total}일 중 {logged}일 기록",
+    currentStreak: "연속 기록",
+    longestStreak: "최장",
+    daysCount: "{count}일",
+    statsMin: "최저",
+    statsMax: "최고",
+    mealRating: "식사 만족도",
+    mealTiming: "식사 시간",
+    hoursAxisLabel: "시간",
+    insights: "인사이트",
+    insightsDesc: "선택한 기간에서 발견된 패턴을 강한 순서로 보여줍니다. 비교하는 양쪽 모두 최소 {min}일의 기록이 있어야 표시되며, 인과관계를 뜻하지는 않습니다.",
+    insightsNone: "아직 뚜렷한 패턴이 없습니다. 기록을 계속하거나 더 긴 기간을 선택해 보세요.",
+    insightSleepEnergy: "{hours}시간 이상 잔 날의 평균 에너지는 {a}로, 적게 잔 날의 {b}와 차이가 있습니다.",
+    insightLateMealWeight: "{hour}시 이후에 마지막 식사를 한 다음 날 체중은 평균 {a} 변했고, 더 일찍 먹은 날은 {b} 변했습니다.",
+    insightRatingEnergyPositive: "식사 만족도가 높은 날 다음 날에는 에너지가 더 높은 경향이 있습니다.",
+    insightRatingEnergyNegative: "식사 만족도가 높은 날 다음 날에는 에너지가 더 낮은 경향이 있습니다.",
+    insightWaterEnergyPositive: "물을 많이 마신 날에 에너지가 더 높은 경향이 있습니다.",
+    insightWaterEnergyNegative: "물을 많이 마신 날에 에너지가 더 낮은 경향이 있습니다.",
+    insightStrong: "뚜렷한 패턴",
+    insightModerate: "보통 패턴",
+    basedOnDays: "{count}일 기준",
   },
 };
 
 type Language = keyof typeof translations;
-type View = 'daily' | 'weekly' | 'analysis' | 'calendar';
-type MealType = 'breakfast' | 'lunch' | 'snack' | 'dinner';
-
-interface MealData {
-  time: string;
-  menu: string;
-  rating: number | null;
-  notes: string;
-}
-
-interface DailyLogData {
-  meals: Record<MealType, MealData>;
-  water: number;
-  weight: string;
-  sleep: number;
-  energy: number;
-  exercise: string;
-  notes: string;
-}
+type View = 'daily' | 'weekly' | 'analysis' | 'calendar' | 'recipes' | 'search' | 'backup' | 'settings';
 
-interface WeeklyPlanData {
-  days: Record<string, Partial<Record<MealType, string>>>;
-  notes: string;
-}
+const readStoredValue = <T,>(key: string, initialValue: T, storage: Storage = window.localStorage): T => {
+  try {
+    const item = storage.getItem(key);
+    return item ? JSON.parse(item) : initialValue;
+  } catch (error) {
+    console.error(error);
+    return initialValue;
+  }
+};
 
-interface AppData {
-  daily: Record<string, DailyLogData>;
-  weekly: Record<string, WeeklyPlanData>;
-}
+const writeStoredValue = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(error);
+  }
+};
 
 const useLocalStorage = <T,>(key: string, initialValue: T): [T, (value: T | ((val: T) => T)) => void] => {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
+  const [storedValue, setStoredValue] = useState<T>(() => readStoredValue(key, initialValue));
 
   const setValue = (value: T | ((val: T) => T)) => {
     try {
@@ -124,25 +954,1029 @@ const useLocalStorage = <T,>(key: string, initialValue: T): [T, (value: T | ((va
   return [storedValue, setValue];
 };
 
-const getTodayDateString = () => new Date().toISOString().split('T')[0];
-const getWeekStartDate = (date: Date) => {
-    const d = new Date(date);
-    const day = d.getDay();
-    const diff = d.getDate() - day + (day === 0 ? -6 : 1); // adjust when day is sunday
-    return new Date(d.setDate(diff)).toISOString().split('T')[0];
+// Read asynchronously because the trash is encrypted along with the diary; `loaded` is false until it has been read.
+const useTrash = (profileId: string, encryptionKeys: EncryptionKeys | null) => {
+  const key = scopeStorageKey(TRASH_KEY, profileId);
+  const [trash, setTrashState] = useState<DeletedEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const trashRef = useRef(trash);
+  const keysRef = useRef(encryptionKeys);
+  // Writes run one after another so a slow encryption never lets an older list overwrite a newer one.
+  const writeRef = useRef<Promise<boolean>>(Promise.resolve(true));
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTrash(key, keysRef.current).then(items => {
+      if (cancelled) return;
+      trashRef.current = items;
+      setTrashState(items);
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Resolves to false when the write failed.
+  const write = (items: DeletedEntry[]) => {
+    writeRef.current = writeRef.current
+      .then(() => saveTrash(key, items, keysRef.current))
+      .then(() => true, error => {
+        console.error(error);
+        return false;
+      });
+    return writeRef.current;
+  };
+
+  const setTrash = (items: DeletedEntry[]) => {
+    trashRef.current = items;
+    setTrashState(items);
+    write(items);
+  };
+
+  // Saves the trash again with new keys, or in plain text with null, like usePersistentAppData's rewriteAll.
+  const rewrite = (keys: EncryptionKeys | null) => {
+    keysRef.current = keys;
+    return write(trashRef.current);
+  };
+
+  return { trash, setTrash, loaded, rewrite };
+};
+
+const SAVE_DEBOUNCE_MS = 500;
+
+// Writes are queued for sync only while it's turned on; turning it on queues the whole diary (see useSync).
+const queueSyncChanges = (profileId: string, previous: AppData, changes: AppDataChanges) => {
+  const settings = readStoredValue(scopeStorageKey(SYNC_SETTINGS_KEY, profileId), DEFAULT_SYNC_SETTINGS);
+  if (!isSyncConfigured(settings)) return;
+  const queueKey = scopeStorageKey(SYNC_QUEUE_KEY, profileId);
+  writeStoredValue(queueKey, queueChanges(readStoredValue(queueKey, createSyncQueue()), previous, changes));
+};
+
+// Each profile has its own IndexedDB database (or localStorage blob without IndexedDB) and sync channel. Entries are
+// encrypted with `encryptionKeys` when the profile's diary is encrypted.
+const usePersistentAppData = (profileId: string, encryptionKeys: EncryptionKeys | null) => {
+  const [loadResult, setLoadResult] = useState<StorageLoadResult | null>(null);
+  const [data, setData] = useState<AppData>(createEmptyAppData);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const dbRef = useRef<IDBDatabase | null>(null);
+  const channelRef = useRef<SyncChannel | null>(null);
+  const savedRef = useRef<AppData | null>(null);
+  const keysRef = useRef(encryptionKeys);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  // Resolves to false when the save failed; `saveFailed` is set then too.
+  const flush = useCallback(async () => {
+    const saved = savedRef.current;
+    const current = dataRef.current;
+    if (!saved || saved === current) return true;
+    try {
+      const changes = diffAppData(saved, current);
+      if (dbRef.current) {
+        await writeChanges(dbRef.current, changes, keysRef.current);
+        channelRef.current?.post(getChangedKeys(changes));
+      } else {
+        await saveAppData(current, scopeStorageKey(STORAGE_KEY, profileId), keysRef.current);
+      }
+      savedRef.current = current;
+      queueSyncChanges(profileId, saved, changes);
+      setSaveFailed(false);
+      return true;
+    } catch (error) {
+      console.error(error);
+      setSaveFailed(true);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    openDatabase(scopeStorageKey(DB_NAME, profileId))
+      .then(db => {
+        dbRef.current = db;
+        return loadFromDatabase(db, scopeStorageKey(STORAGE_KEY, profileId), keysRef.current);
+      }, error => {
+        console.error(error);
+        return loadAppData(scopeStorageKey(STORAGE_KEY, profileId), keysRef.current);
+      })
+      .catch(error => {
+        console.error(error);
+        return createSafeModeResult(null);
+      })
+      .then(result => {
+        if (cancelled) return;
+        savedRef.current = result.data;
+        setData(result.data);
+        setLoadResult(result);
+      });
+    return () => {
+      cancelled = true;
+      dbRef.current?.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!loadResult) return;
+    const timer = window.setTimeout(flush, SAVE_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [data, loadResult, flush]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  useEffect(() => {
+    if (!loadResult) return;
+    const channel = createSyncChannel(async keys => {
+      if (!dbRef.current || !savedRef.current) return;
+      const entries = await readEntries(dbRef.current, keys, keysRef.current);
+      // Entries with unsaved local edits keep the local version; it is written on the next flush.
+      const pendingKeys = getChangedKeys(diffAppData(savedRef.current, dataRef.current));
+      pendingKeys.daily.forEach(key => delete entries.daily[key]);
+      pendingKeys.weekly.forEach(key => delete entries.weekly[key]);
+      savedRef.current = applyEntries(savedRef.current, entries);
+      setData(prev => applyEntries(prev, entries));
+    }, scopeStorageKey(SYNC_CHANNEL, profileId));
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [loadResult]);
+
+  const getSaved = useCallback(() => savedRef.current, []);
+
+  // Writes entries received from the sync server. Entries edited locally since `base` was read are left alone and
+  // returned, so the next sync merges them instead.
+  const applyRemoteEntries = useCallback(async (entries: AppDataEntries, base: AppData): Promise<AppDataKeys> => {
+    const skipped: AppDataKeys = { daily: [], weekly: [] };
+    const saved = savedRef.current;
+    if (!saved) return skipped;
+    const unsaved = getChangedKeys(diffAppData(saved, dataRef.current));
+    const applied: AppDataEntries = { daily: {}, weekly: {} };
+    SYNC_SECTIONS.forEach(section => {
+      Object.entries(entries[section]).forEach(([key, value]) => {
+        if (saved[section][key] !== base[section][key] || unsaved[section].includes(key)) {
+          skipped[section].push(key);
+        } else {
+          (applied[section] as Record<string, unknown>)[key] = value;
+        }
+      });
+    });
+    const next = applyEntries(saved, applied);
+    const changes = diffAppData(saved, next);
+    const keys = getChangedKeys(changes);
+    if (!keys.daily.length && !keys.weekly.length) return skipped;
+    savedRef.current = next;
+    setData(prev => applyEntries(prev, applied));
+    if (dbRef.current) {
+      await writeChanges(dbRef.current, changes, keysRef.current);
+      channelRef.current?.post(keys);
+    } else {
+      await saveAppData(next, scopeStorageKey(STORAGE_KEY, profileId), keysRef.current);
+    }
+    return skipped;
+  }, []);
+
+  // Saves the whole diary again with new keys, or in plain text with null; every later write uses them too.
+  const rewriteAll = useCallback(async (keys: EncryptionKeys | null) => {
+    keysRef.current = keys;
+    await flush();
+    const saved = savedRef.current;
+    if (!saved) return;
+    if (dbRef.current) {
+      await replaceAll(dbRef.current, saved, keys);
+      // Edits saved while the diary was being rewritten were overwritten by it.
+      const latest = savedRef.current;
+      if (latest && latest !== saved) await writeChanges(dbRef.current, diffAppData(saved, latest), keys);
+    } else {
+      await saveAppData(savedRef.current ?? saved, scopeStorageKey(STORAGE_KEY, profileId), keys);
+    }
+  }, []);
+
+  return { data, setData, loadResult, saveFailed, retrySave: flush, getSaved, applyRemoteEntries, rewriteAll };
+};
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Longer than SAVE_DEBOUNCE_MS so a burst of edits goes out in one sync.
+const SYNC_AFTER_EDIT_MS = 5 * 1000;
+const SYNC_LOCK = 'foodDiary_syncRun';
+
+interface SyncStatus {
+  syncing: boolean;
+  error: SyncErrorKind | null;
+  lastSyncedAt: number | null;
+  pending: number;
+}
+
+type SyncServerFields = Pick<SyncSettings, 'serverUrl' | 'diaryId' | 'token'>;
+
+// Syncs the profile's diary with its sync server: shortly after edits, every few minutes, when the tab comes back
+// and when the device comes back online. Edits made offline stay queued in localStorage until a sync gets through.
+const useSync = (
+  profileId: string,
+  data: AppData,
+  loadResult: StorageLoadResult | null,
+  flush: () => Promise<boolean>,
+  getSaved: () => AppData | null,
+  applyRemoteEntries: (entries: AppDataEntries, base: AppData) => Promise<AppDataKeys>,
+) => {
+  const stateKey = scopeStorageKey(SYNC_STATE_KEY, profileId);
+  const queueKey = scopeStorageKey(SYNC_QUEUE_KEY, profileId);
+  const [settings, setSettings] = useLocalStorage<SyncSettings>(scopeStorageKey(SYNC_SETTINGS_KEY, profileId), DEFAULT_SYNC_SETTINGS);
+  const [status, setStatus] = useState<SyncStatus>(() => ({
+    syncing: false,
+    error: null,
+    lastSyncedAt: readStoredValue(stateKey, createSyncState()).lastSyncedAt,
+    pending: getPendingCount(readStoredValue(queueKey, createSyncQueue())),
+  }));
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const runningRef = useRef(false);
+  // Never in safe mode: the diary shown then is empty and would be merged into the server's copy.
+  const active = isSyncConfigured(settings) && loadResult !== null && loadResult.status !== 'safeMode';
+
+  const syncOnce = async () => {
+    const current = settingsRef.current;
+    await flush();
+    const base = getSaved();
+    if (!base || !isSyncConfigured(current)) return;
+    const state = readStoredValue(stateKey, createSyncState());
+    const started = readStoredValue(queueKey, createSyncQueue());
+    const result = await runSync(current, state, started, base);
+    const skipped = await applyRemoteEntries(result.entries, base);
+    const { revisions } = result.state;
+    SYNC_SECTIONS.forEach(section => skipped[section].forEach(key => {
+      if (key in state.revisions[section]) {
+        revisions[section][key] = state.revisions[section][key];
+      } else {
+        delete revisions[section][key];
+      }
+    }));
+    // Edits queued while this sync was running, here or in another tab, go out with the next one.
+    const queue = mergeQueuedDuringSync(result.queue, started, readStoredValue(queueKey, createSyncQueue()));
+    writeStoredValue(stateKey, result.state);
+    writeStoredValue(queueKey, queue);
+    setStatus({ syncing: false, error: null, lastSyncedAt: result.state.lastSyncedAt, pending: getPendingCount(queue) });
+  };
+
+  const run = useCallback(async () => {
+    if (!isSyncConfigured(settingsRef.current) || runningRef.current) return;
+    const pending = () => getPendingCount(readStoredValue(queueKey, createSyncQueue()));
+    if (!navigator.onLine) {
+      setStatus(prev => ({ ...prev, error: 'offline', pending: pending() }));
+      return;
+    }
+    runningRef.current = true;
+    setStatus(prev => ({ ...prev, syncing: true }));
+    try {
+      // One tab at a time, so two open tabs don't push the same edits.
+      if ('locks' in navigator) {
+        await navigator.locks.request(scopeStorageKey(SYNC_LOCK, profileId), { ifAvailable: true }, async lock => {
+          if (lock) await syncOnce();
+        });
+      } else {
+        await syncOnce();
+      }
+    } catch (error) {
+      console.error(error);
+      setStatus(prev => ({ ...prev, error: getSyncErrorKind(error), pending: pending() }));
+    } finally {
+      runningRef.current = false;
+      setStatus(prev => prev.syncing ? { ...prev, syncing: false } : prev);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+    run();
+    const interval = window.setInterval(run, SYNC_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') run();
+    };
+    window.addEventListener('online', run);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', run);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [active, run]);
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = window.setTimeout(run, SYNC_AFTER_EDIT_MS);
+    return () => window.clearTimeout(timer);
+  }, [data]);
+
+  // Starts from scratch: everything in this diary is pushed and everything on the server pulled.
+  const enable = async (fields: SyncServerFields) => {
+    await flush();
+    writeStoredValue(stateKey, createSyncState());
+    writeStoredValue(queueKey, queueAll(getSaved() ?? createEmptyAppData()));
+    setStatus({ syncing: false, error: null, lastSyncedAt: null, pending: 0 });
+    setSettings({ ...fields, enabled: true, deviceId: settings.deviceId || createDeviceId() });
+  };
+
+  const disable = () => {
+    window.localStorage.removeItem(stateKey);
+    window.localStorage.removeItem(queueKey);
+    setSettings({ ...settings, enabled: false });
+  };
+
+  return { settings, status, syncNow: run, enable, disable };
+};
+
+const readEncryptionSettings = (profileId: string) => {
+  const settings = readStoredValue<unknown>(scopeStorageKey(ENCRYPTION_KEY, profileId), null);
+  return isEncryptionSettings(settings) ? settings : null;
+};
+
+const isProfileEncrypted = (profileId: string) => readEncryptionSettings(profileId) !== null;
+
+// Adds a week of plans to another profile's diary, regrouped to that profile's week start, and tells its open tabs.
+const copyPlanToProfile = async (profileId: string, weekStart: string, plan: WeeklyPlanData) => {
+  if (isProfileEncrypted(profileId)) throw new Error('The other profile\'s diary is encrypted');
+  const storageKey = scopeStorageKey(STORAGE_KEY, profileId);
+  const targetWeekStart = readStoredValue<WeekStart>(scopeStorageKey('foodDiary_weekStart', profileId), DEFAULT_WEEK_START);
+  const incoming = regroupWeeklyPlans({ [weekStart]: plan }, targetWeekStart);
+
+  let db: IDBDatabase | null = null;
+  try {
+    db = await openDatabase(scopeStorageKey(DB_NAME, profileId));
+  } catch (error) {
+    console.error(error);
+  }
+  try {
+    const result = db ? await loadFromDatabase(db, storageKey) : await loadAppData(storageKey);
+    if (result.status === 'safeMode') throw new Error('The other profile\'s diary could not be read');
+    const weekly = mergeWeeklyPlans(result.data.weekly, incoming);
+    const put = Object.fromEntries(Object.keys(incoming).map(key => [key, weekly[key]]));
+    const changes: AppDataChanges = { daily: { put: {}, remove: [] }, weekly: { put, remove: [] } };
+    if (db) {
+      await writeChanges(db, changes);
+      const channel = createSyncChannel(() => {}, scopeStorageKey(SYNC_CHANNEL, profileId));
+      channel.post({ daily: [], weekly: Object.keys(put) });
+      channel.close();
+    } else {
+      await saveAppData({ ...result.data, weekly }, storageKey);
+    }
+    queueSyncChanges(profileId, result.data, changes);
+  } finally {
+    db?.close();
+  }
+};
+
+const REMINDER_CHECK_MS = 60 * 1000;
+// Shared by all tabs so a reminder is shown once even with the diary open twice; scoped per profile.
+const SHOWN_REMINDERS_KEY = 'foodDiary_shownReminders';
+
+type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+const getNotificationPermission = (): NotificationPermissionState =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+// Goes through the service worker when there is one, so clicking the notification can focus the app.
+const showNotification = async (title: string, options: NotificationOptions) => {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+};
+
+const readShownReminders = (key: string): string[] => {
+  try {
+    return JSON.parse(window.localStorage.getItem(key) ?? '[]');
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+const writeShownReminders = (key: string, ids: string[]) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(ids));
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+// Checks once a minute while the diary is open, including in a background tab.
+const useReminders = (
+  settings: ReminderSettings,
+  mealSlots: MealSlot[],
+  daily: AppData['daily'],
+  waterGoalCups: number,
+  profileId: string,
+  t: (key: keyof (typeof translations)['en']) => string | string[],
+) => {
+  const shownKey = scopeStorageKey(SHOWN_REMINDERS_KEY, profileId);
+  const check = useCallback(() => {
+    if (getNotificationPermission() !== 'granted') return;
+    const today = getTodayDateString();
+    const now = new Date();
+    const due = getDueReminders(settings, getVisibleSlots(mealSlots), daily[today], waterGoalCups, today, now.getHours() * 60 + now.getMinutes());
+    const shown = pruneShownReminders(readShownReminders(shownKey), today);
+    const fresh = due.filter(reminder => !shown.includes(reminder.id));
+    writeShownReminders(shownKey, [...shown, ...fresh.map(reminder => reminder.id)]);
+    fresh.forEach(reminder => {
+      const meal = reminder.kind === 'meal' ? getMealSlotLabel(mealSlots, reminder.slot.id, t) : '';
+      const [title, body] = reminder.kind === 'meal'
+        ? [(t('reminderMealTitle') as string).replace('{meal}', meal), (t('reminderMealBody') as string).replace('{meal}', meal)]
+        : reminder.kind === 'water'
+          ? [t('reminderWaterTitle') as string, (t('reminderWaterBody') as string).replace('{cups}', String(reminder.cups)).replace('{goal}', String(reminder.goalCups))]
+          : [t('reminderWeighInTitle') as string, t('reminderWeighInBody') as string];
+      showNotification(title, { body, tag: reminder.id }).catch(error => console.error(error));
+    });
+  }, [settings, mealSlots, daily, waterGoalCups, shownKey, t]);
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+    check();
+    const timer = window.setInterval(check, REMINDER_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [check, settings.enabled]);
+};
+
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// Registers sw.js, surfaces a waiting update and the browser's install prompt.
+const useServiceWorker = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
+
+  useEffect(() => {
+    const handleInstallPrompt = (e: Event) => {
+      e.preventDefault();
+      setInstallPrompt(e as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setInstallPrompt(null);
+    window.addEventListener('beforeinstallprompt', handleInstallPrompt);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleInstallPrompt);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const container = navigator.serviceWorker;
+    // The very first install takes control without a reload; only switching versions reloads the page.
+    const hadController = !!container.controller;
+    let reloading = false;
+    const handleControllerChange = () => {
+      if (!hadController || reloading) return;
+      reloading = true;
+      window.location.reload();
+    };
+    const trackInstalling = (registration: ServiceWorkerRegistration) => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && container.controller) setWaiting(installing);
+      });
+    };
+
+    let registration: ServiceWorkerRegistration | null = null;
+    const checkForUpdate = () => {
+      if (document.visibilityState === 'visible') registration?.update().catch(error => console.error(error));
+    };
+
+    container.addEventListener('controllerchange', handleControllerChange);
+    document.addEventListener('visibilitychange', checkForUpdate);
+    container.register('./sw.js')
+      .then(result => {
+        registration = result;
+        if (result.waiting && container.controller) setWaiting(result.waiting);
+        result.addEventListener('updatefound', () => trackInstalling(result));
+        return container.ready;
+      })
+      .then(ready => {
+        // Cache what this page already loaded, since the worker may not have been controlling it yet.
+        ready.active?.postMessage({ type: 'cacheUrls', urls: performance.getEntriesByType('resource').map(entry => entry.name) });
+        // Without this the browser may evict the cached app under storage pressure, leaving nothing to start offline.
+        return navigator.storage?.persist?.();
+      })
+      .catch(error => console.error(error));
+
+    return () => {
+      container.removeEventListener('controllerchange', handleControllerChange);
+      document.removeEventListener('visibilitychange', checkForUpdate);
+    };
+  }, []);
+
+  const applyUpdate = () => waiting?.postMessage({ type: 'skipWaiting' });
+
+  const install = async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    await installPrompt.userChoice;
+    setInstallPrompt(null);
+  };
+
+  return { updateReady: !!waiting, applyUpdate, canInstall: !!installPrompt, install };
+};
+
+const HISTORY_LIMIT = 100;
+const COALESCE_MS = 1000;
+
+// Inputs whose text the browser can undo itself; Ctrl+Z there undoes typing, not a diary edit.
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'range', 'color', 'file', 'button', 'submit', 'reset'];
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type)) ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+// `onStep` is told about every undo and redo, with the diary before and after it.
+const useUndoHistory = (
+  data: AppData,
+  setData: React.Dispatch<React.SetStateAction<AppData>>,
+  onStep: (previous: AppData, next: AppData) => void,
+) => {
+  const historyRef = useRef<{ past: AppData[]; future: AppData[] }>({ past: [], future: [] });
+  const lastEditRef = useRef<{ at: number; keys: string } | null>(null);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const onStepRef = useRef(onStep);
+  onStepRef.current = onStep;
+  const [, setHistoryVersion] = useState(0);
+
+  const applySnapshot = useCallback((snapshot: AppData) => {
+    dataRef.current = snapshot;
+    setData(snapshot);
+    setHistoryVersion(v => v + 1);
+  }, [setData]);
+
+  const setDataWithHistory = useCallback((value: AppData | ((val: AppData) => AppData)) => {
+    const previous = dataRef.current;
+    const next = value instanceof Function ? value(previous) : value;
+    if (next === previous) return;
+
+    // Rapid edits to the same entries (e.g. typing into one textarea) collapse into a single undo step.
+    const keys = JSON.stringify(getChangedKeys(diffAppData(previous, next)));
+    const now = Date.now();
+    const last = lastEditRef.current;
+    const { past } = historyRef.current;
+    const coalesce = last !== null && last.keys === keys && now - last.at < COALESCE_MS && past.length > 0;
+    historyRef.current = { past: coalesce ? past : [...past, previous].slice(-HISTORY_LIMIT), future: [] };
+    lastEditRef.current = { at: now, keys };
+    applySnapshot(next);
+  }, [applySnapshot]);
+
+  const undo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    if (!past.length) return;
+    historyRef.current = { past: past.slice(0, -1), future: [dataRef.current, ...future] };
+    lastEditRef.current = null;
+    onStepRef.current(dataRef.current, past[past.length - 1]);
+    applySnapshot(past[past.length - 1]);
+  }, [applySnapshot]);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    if (!future.length) return;
+    historyRef.current = { past: [...past, dataRef.current], future: future.slice(1) };
+    lastEditRef.current = null;
+    onStepRef.current(dataRef.current, future[0]);
+    applySnapshot(future[0]);
+  }, [applySnapshot]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    setData: setDataWithHistory,
+    undo,
+    redo,
+    canUndo: historyRef.current.past.length > 0,
+    canRedo: historyRef.current.future.length > 0,
+  };
+};
+
+const DOWNLOAD_REVOKE_DELAY_MS = 60 * 1000;
+
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking right away cancels the download in some browsers (Safari, Firefox with large files).
+    window.setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY_MS);
+};
+
+const formatAmount = (value: number) => String(Math.round(value * 10) / 10);
+
+const getMealSlotLabel = (slots: MealSlot[], id: MealType, t: (key: keyof (typeof translations)['en']) => string | string[]) => {
+  const slot = slots.find(s => s.id === id);
+  if (slot?.name) return slot.name;
+  return isBuiltInMealType(id) ? t(id) as string : id;
+};
+
+const NutritionSummary: React.FC<{
+  nutrients: Nutrients;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ nutrients, t }) => (
+  <div className="nutrition-summary">
+    <span className="nutrition-kcal">{Math.round(nutrients.kcal)} {t('kcal')}</span>
+    <span>{t('protein')} {formatAmount(nutrients.protein)}g</span>
+    <span>{t('carbs')} {formatAmount(nutrients.carbs)}g</span>
+    <span>{t('fat')} {formatAmount(nutrients.fat)}g</span>
+  </div>
+);
+
+const CustomFoodForm: React.FC<{
+  initialName: string;
+  onSave: (food: Food) => void;
+  onCancel: () => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ initialName, onSave, onCancel, t }) => {
+  const [name, setName] = useState(initialName);
+  const [servingLabel, setServingLabel] = useState('');
+  const [nutrients, setNutrients] = useState<Record<keyof Nutrients, string>>({ kcal: '', protein: '', carbs: '', fat: '' });
+
+  const toAmount = (value: string) => value.trim() === '' ? 0 : parseFloat(value);
+  const parsed: Nutrients = {
+    kcal: toAmount(nutrients.kcal),
+    protein: toAmount(nutrients.protein),
+    carbs: toAmount(nutrients.carbs),
+    fat: toAmount(nutrients.fat),
+  };
+  const isValid = name.trim() !== '' && Object.values(parsed).every(value => Number.isFinite(value) && value >= 0);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave(createCustomFood(name.trim(), servingLabel.trim() || `1 ${t('servings')}`, parsed));
+  };
+
+  return (
+    <div className="custom-food-form">
+      <h4>{t('newCustomFood')}</h4>
+      <div className="custom-food-fields">
+        <label>
+          {t('foodName')}
+          <input className="form-input" value={name} onChange={e => setName(e.target.value)} />
+        </label>
+        <label>
+          {t('servingSize')}
+          <input className="form-input" value={servingLabel} onChange={e => setServingLabel(e.target.value)} />
+        </label>
+        {(['kcal', 'protein', 'carbs', 'fat'] as const).map(key => (
+          <label key={key}>
+            {t(key)}{key === 'kcal' ? '' : ' (g)'}
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              className="form-input"
+              value={nutrients[key]}
+              onChange={e => setNutrients(prev => ({ ...prev, [key]: e.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="backup-actions">
+        <button className="control-button" onClick={handleSave} disabled={!isValid}>{t('save')}</button>
+        <button className="date-navigator-btn" onClick={onCancel}>{t('cancel')}</button>
+      </div>
+    </div>
+  );
+};
+
+const FoodItemsEditor: React.FC<{
+  items: MealFoodItem[];
+  onChange: (items: MealFoodItem[]) => void;
+  foods: Food[];
+  onCreateFood: (food: Food) => void;
+  lang: Language;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ items, onChange, foods, onCreateFood, lang, t }) => {
+  const [query, setQuery] = useState('');
+  const [creating, setCreating] = useState(false);
+  const results = useMemo(() => searchFoods(foods, query), [foods, query]);
+
+  const addFood = (food: Food) => {
+    onChange([...items, createMealFoodItem(food, lang)]);
+    setQuery('');
+  };
+
+  const handleCreate = (food: Food) => {
+    onCreateFood(food);
+    addFood(food);
+    setCreating(false);
+  };
+
+  const updateServings = (id: string, servings: number) => {
+    onChange(items.map(item => item.id === id ? { ...item, servings } : item));
+  };
+
+  return (
+    <div className="food-items">
+      {items.length === 0 && <p className="food-items-empty">{t('noFoodItems')}</p>}
+      {items.length > 0 && (
+        <ul className="food-item-list">
+          {items.map(item => (
+            <li key={item.id} className="food-item">
+              <div className="food-item-name">
+                <span>{item.name}</span>
+                <small>{item.servingLabel}</small>
+              </div>
+              <input
+                type="number"
+                className="form-input food-item-servings"
+                min="0.25"
+                step="0.25"
+                value={item.servings}
+                onChange={e => {
+                  const servings = parseFloat(e.target.value);
+                  if (servings > 0) updateServings(item.id, servings);
+                }}
+                aria-label={`${item.name} ${t('servings')}`}
+              />
+              <span className="food-item-kcal">{Math.round(getItemNutrients(item).kcal)} {t('kcal')}</span>
+              <button className="food-item-remove" onClick={() => onChange(items.filter(other => other.id !== item.id))} aria-label={t('remove') as string}>×</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {creating ? (
+        <CustomFoodForm initialName={query.trim()} onSave={handleCreate} onCancel={() => setCreating(false)} t={t} />
+      ) : (
+        <div className="food-search">
+          <input
+            className="form-input"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t('searchFood') as string}
+            aria-label={t('searchFood') as string}
+          />
+          {query.trim() && (
+            <ul className="food-search-results">
+              {results.map(food => (
+                <li key={food.id}>
+                  <button onClick={() => addFood(food)}>
+                    <span>{getFoodName(food, lang)}</span>
+                    <small>{getServingLabel(food, lang)} · {Math.round(food.nutrients.kcal)} {t('kcal')}</small>
+                  </button>
+                </li>
+              ))}
+              <li>
+                <button className="food-search-create" onClick={() => setCreating(true)}>
+                  + {(t('addCustomFood') as string).replace('{name}', query.trim())}
+                </button>
+              </li>
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface MenuSource {
+  recipes: Recipe[];
+  pastMenus: PastMenu[];
+}
+
+// Menu textarea with suggestions from saved recipes and past entries; recipes can also be dropped onto it.
+const MenuInput: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  menuSource: MenuSource;
+  className?: string;
+  rows: number;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ value, onChange, menuSource, className, rows, t }) => {
+  const [focused, setFocused] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [dragOver, setDragOver] = useState(false);
+  const suggestions = useMemo(
+    () => getMenuSuggestions(value, menuSource.recipes, menuSource.pastMenus),
+    [value, menuSource]
+  );
+  const isOpen = focused && !dismissed && suggestions.length > 0;
+
+  const handleChange = (text: string) => {
+    setDismissed(false);
+    setHighlighted(-1);
+    onChange(text);
+  };
+
+  const select = (suggestion: MenuSuggestion) => {
+    onChange(suggestion.text);
+    setDismissed(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const offset = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((highlighted + offset + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' && highlighted >= 0) {
+      e.preventDefault();
+      select(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    setDragOver(false);
+    const recipe = menuSource.recipes.find(r => r.id === e.dataTransfer.getData(RECIPE_DRAG_TYPE));
+    if (!recipe) return;
+    e.preventDefault();
+    onChange(recipe.name);
+  };
+
+  return (
+    <div className="menu-input">
+      <textarea
+        className={`${className ?? ''} ${dragOver ? 'drag-over' : ''}`}
+        value={value}
+        rows={rows}
+        onChange={e => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onDragOver={e => {
+          if (!e.dataTransfer.types.includes(RECIPE_DRAG_TYPE)) return;
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+      />
+      {isOpen && (
+        <ul className="food-search-results menu-suggestions" role="listbox">
+          {suggestions.map((suggestion, i) => (
+            <li key={`${suggestion.kind}-${suggestion.text}`} role="option" aria-selected={i === highlighted}>
+              <button
+                className={i === highlighted ? 'highlighted' : ''}
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => select(suggestion)}
+              >
+                <span>{suggestion.text}</span>
+                <small>
+                  {suggestion.kind === 'recipe'
+                    ? [t('recipe') as string, ...suggestion.recipe.tags].join(' · ')
+                    : (t('loggedTimes') as string).replace('{count}', String(suggestion.count))}
+                </small>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const RATING_EMOJIS = ['😣', '😐', '🙂', '😋'];
+
+const usePhotoUrl = (id: string) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    loadPhoto(id)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(error => console.error(error));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [id]);
+  return url;
+};
+
+const PhotoThumb: React.FC<{ id: string; alt: string; className?: string }> = ({ id, alt, className = 'photo-thumb' }) => {
+  const url = usePhotoUrl(id);
+  return url ? <img className={className} src={url} alt={alt} /> : <span className={`${className} loading`} role="img" aria-label={alt} />;
+};
+
+const MealPhotos: React.FC<{
+  title: string;
+  photos: string[];
+  onChange: (photos: string[]) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ title, photos, onChange, t }) => {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<string | null>(null);
+  // Saving takes a moment; read the latest props when it finishes so edits made meanwhile aren't lost.
+  const latestRef = useRef({ photos, onChange });
+  latestRef.current = { photos, onChange };
+  const alt = (t('mealPhotoAlt') as string).replace('{meal}', title);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!files.length) return;
+    setSaving(true);
+    setError(null);
+    const ids: string[] = [];
+    for (const file of files) {
+      try {
+        ids.push(await savePhoto(file));
+      } catch (saveError) {
+        console.error(saveError);
+        setError(t('photoSaveFailed') as string);
+      }
+    }
+    setSaving(false);
+    if (ids.length) latestRef.current.onChange([...latestRef.current.photos, ...ids]);
+  };
+
+  if (!isPhotoStorageAvailable()) return <p className="backup-description">{t('photosUnavailable')}</p>;
+
+  return (
+    <div className="meal-photos">
+      {photos.length > 0 && (
+        <div className="photo-strip">
+          {photos.map(id => (
+            <div key={id} className="photo-strip-item">
+              <button className="photo-open-btn" onClick={() => setViewing(id)} aria-label={t('viewPhoto') as string}>
+                <PhotoThumb id={id} alt={alt} />
+              </button>
+              <button className="photo-remove-btn" onClick={() => onChange(photos.filter(other => other !== id))} aria-label={t('removePhoto') as string}>×</button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="photo-actions">
+        <label className="date-navigator-btn photo-add-btn">
+          {t('takePhoto')}
+          <input type="file" accept="image/*" capture="environment" onChange={handleFiles} disabled={saving} hidden />
+        </label>
+        <label className="date-navigator-btn photo-add-btn">
+          {t('choosePhotos')}
+          <input type="file" accept="image/*" multiple onChange={handleFiles} disabled={saving} hidden />
+        </label>
+        {saving && <span className="photo-status">{t('savingPhotos')}</span>}
+      </div>
+      {error && <p className="backup-message error">{error}</p>}
+      {viewing && (
+        <div className="photo-viewer" role="dialog" aria-label={alt} onClick={() => setViewing(null)}>
+          <PhotoThumb id={viewing} alt={alt} className="photo-viewer-image" />
+          <button className="control-button" onClick={() => setViewing(null)}>{t('closePhoto')}</button>
+        </div>
+      )}
+    </div>
+  );
 };
 
 const MealCard: React.FC<{
-  mealType: MealType;
+  title: string;
   data: MealData;
+  plannedMenu?: string;
   onChange: (field: keyof MealData, value: any) => void;
+  menuSource: MenuSource;
+  foods: Food[];
+  onCreateFood: (food: Food) => void;
+  lang: Language;
   t: (key: keyof (typeof translations)['en']) => string | string[];
-}> = ({ mealType, data, onChange, t }) => {
-  const RATING_EMOJIS = ['😣', '😐', '🙂', '😋'];
-
+}> = ({ title, data, plannedMenu, onChange, menuSource, foods, onCreateFood, lang, t }) => {
   return (
     <div className="card meal-card">
-        <h3 className="card-title">{t(mealType)}</h3>
+        <h3 className="card-title">{title}</h3>
         <div className="form-group">
             <label>{t('mealTime')}</label>
             <input
@@ -154,12 +1988,37 @@ const MealCard: React.FC<{
         </div>
         <div className="form-group">
             <label>{t('foodDesc')}</label>
-            <textarea
+            <MenuInput
                 className="form-textarea"
                 value={data.menu}
-                onChange={(e) => onChange('menu', e.target.value)}
+                onChange={menu => onChange('menu', menu)}
+                menuSource={menuSource}
                 rows={2}
+                t={t}
+            />
+            {plannedMenu && !data.menu.trim() && (
+                <div className="planned-hint">
+                    <span><small>{t('planned')}</small> {plannedMenu}</span>
+                    <button className="today-btn" onClick={() => onChange('menu', plannedMenu)}>{t('logAsPlanned')}</button>
+                </div>
+            )}
+        </div>
+        <div className="form-group">
+            <label>{t('foodItems')}</label>
+            <FoodItemsEditor
+                items={data.items}
+                onChange={items => onChange('items', items)}
+                foods={foods}
+                onCreateFood={onCreateFood}
+                lang={lang}
+                t={t}
             />
+            {data.items.length > 0 && (
+                <div className="meal-total">
+                    <span>{t('mealTotal')}</span>
+                    <NutritionSummary nutrients={getMealNutrients(data)} t={t} />
+                </div>
+            )}
         </div>
         <div className="form-group">
             <label>{t('tasteRating')}</label>
@@ -185,6 +2044,10 @@ const MealCard: React.FC<{
                 onChange={(e) => onChange('notes', e.target.value)}
             />
         </div>
+        <div className="form-group">
+            <label>{t('mealPhotos')}</label>
+            <MealPhotos title={title} photos={data.photos} onChange={photos => onChange('photos', photos)} t={t} />
+        </div>
     </div>
   );
 };
@@ -192,9 +2055,12 @@ const MealCard: React.FC<{
 const WaterTracker: React.FC<{
     count: number,
     setCount: (count: number) => void,
+    goalMl: number,
     t: (key: keyof (typeof translations)['en']) => string | string[];
-}> = ({ count, setCount, t }) => {
-  const cups = Array.from({ length: 8 }, (_, i) => i < count);
+}> = ({ count, setCount, goalMl, t }) => {
+  const goalCups = Math.ceil(goalMl / CUP_ML);
+  // Once the goal is met, keep one empty cup around so intake beyond the goal can still be logged.
+  const cups = Array.from({ length: count >= goalCups ? count + 1 : goalCups }, (_, i) => i < count);
 
   return (
     <div className="card">
@@ -207,56 +2073,329 @@ const WaterTracker: React.FC<{
             </svg>
         ))}
       </div>
+      <p className="water-total">{count * CUP_ML} / {goalMl} ml</p>
     </div>
   );
 };
 
-const DailyLog: React.FC<{
-  selectedDate: string;
-  setSelectedDate: (date: string) => void;
-  data: AppData;
-  setData: (value: AppData | ((val: AppData) => AppData)) => void;
+const ProgressRing: React.FC<{
+  value: number;
+  target: number;
+  label: string;
+  unit: string;
+  overIsBad?: boolean;
+}> = ({ value, target, label, unit, overIsBad = false }) => {
+  const RADIUS = 40;
+  const circumference = 2 * Math.PI * RADIUS;
+  const ratio = target > 0 ? value / target : 0;
+  const isOver = overIsBad && ratio > 1;
+
+  return (
+    <div className={`progress-ring ${isOver ? 'over' : ''} ${ratio >= 1 && !isOver ? 'complete' : ''}`}>
+      <svg width="100" height="100" viewBox="0 0 100 100" role="img" aria-label={`${label}: ${Math.round(value)} / ${Math.round(target)} ${unit}`}>
+        <circle className="progress-ring-track" cx="50" cy="50" r={RADIUS} />
+        <circle
+          className="progress-ring-value"
+          cx="50"
+          cy="50"
+          r={RADIUS}
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - Math.min(ratio, 1))}
+          transform="rotate(-90 50 50)"
+        />
+        <text x="50" y="48" textAnchor="middle" className="progress-ring-percent">{Math.round(ratio * 100)}%</text>
+        <text x="50" y="66" textAnchor="middle" className="progress-ring-detail">{formatAmount(value)}/{formatAmount(target)}</text>
+      </svg>
+      <span className="progress-ring-label">{label} ({unit})</span>
+    </div>
+  );
+};
+
+const GoalProgress: React.FC<{
+  dailyData: DailyLogData;
+  goals: Goals;
+  weightUnit: WeightUnit;
   t: (key: keyof (typeof translations)['en']) => string | string[];
-}> = ({ selectedDate, setSelectedDate, data, setData, t }) => {
-    
-  const initialDailyData = useMemo(() => ({
-    meals: {
-      breakfast: { time: '08:00', menu: '', rating: null, notes: '' },
-      lunch: { time: '12:30', menu: '', rating: null, notes: '' },
-      snack: { time: '16:00', menu: '', rating: null, notes: '' },
-      dinner: { time: '19:00', menu: '', rating: null, notes: '' },
-    },
-    water: 0, weight: '', sleep: 8, energy: 3, exercise: '', notes: ''
-  }), []);
-    
-  const dailyData = data.daily[selectedDate] || initialDailyData;
+}> = ({ dailyData, goals, weightUnit, t }) => {
+  const nutrients = getDayNutrients(dailyData);
+  const macroTargets = getMacroTargets(goals);
+  const weight = dailyData.weight;
 
-  const updateDailyData = (field: keyof DailyLogData, value: any) => {
-    setData(prev => ({
-      ...prev,
-      daily: {
-        ...prev.daily,
-        [selectedDate]: { ...(prev.daily[selectedDate] || initialDailyData), [field]: value },
+  return (
+    <div className="card goal-progress">
+      <h3 className="card-title">{t('goalProgress')}</h3>
+      <div className="progress-rings">
+        <ProgressRing value={nutrients.kcal} target={goals.calories} label={t('calories') as string} unit="kcal" overIsBad />
+        <ProgressRing value={dailyData.water * CUP_ML} target={goals.waterMl} label={t('water') as string} unit="ml" />
+        <ProgressRing value={dailyData.sleep} target={goals.sleepHours} label={t('sleepShort') as string} unit="h" />
+      </div>
+      <div className="macro-bars">
+        {(['protein', 'carbs', 'fat'] as const).map(macro => {
+          const ratio = macroTargets[macro] > 0 ? nutrients[macro] / macroTargets[macro] : 0;
+          return (
+            <div key={macro} className="macro-bar">
+              <div className="macro-bar-label">
+                <span>{t(macro)}</span>
+                <span>{formatAmount(nutrients[macro])} / {Math.round(macroTargets[macro])} g</span>
+              </div>
+              <div className="macro-bar-track">
+                <div className={`macro-bar-fill ${ratio > 1 ? 'over' : ''}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {goals.targetWeight !== null && weight !== null && (
+        <p className="weight-goal">
+          {Math.abs(weight - goals.targetWeight) < 0.05
+            ? (t('weightReached') as string).replace('{target}', formatWeight(goals.targetWeight, weightUnit))
+            : (t('weightToGo') as string)
+                .replace('{diff}', formatWeight(Math.abs(weight - goals.targetWeight), weightUnit))
+                .replace('{target}', formatWeight(goals.targetWeight, weightUnit))}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const WeightInput: React.FC<{
+  value: number | null;
+  onChange: (kg: number | null) => void;
+  unit: WeightUnit;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ value, onChange, unit, t }) => {
+  const format = (kg: number | null) => kg === null ? '' : formatWeightValue(kg, unit);
+  const [draft, setDraft] = useState(() => format(value));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow outside changes (another day, undo, a unit switch) unless the draft already says the same thing.
+  useEffect(() => {
+    const parsed = parseWeightInput(draft, unit);
+    if (!parsed.ok || parsed.kg !== value) {
+      setDraft(format(value));
+      setError(null);
+    }
+  }, [value, unit]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    const parsed = parseWeightInput(text, unit);
+    if (!parsed.ok) return;
+    setError(null);
+    if (parsed.kg !== value) onChange(parsed.kg);
+  };
+
+  // Range errors wait for blur so typing "7" on the way to "72" isn't flagged.
+  const handleBlur = () => {
+    const parsed = parseWeightInput(draft, unit);
+    setError(parsed.ok ? null : (t('weightOutOfRange') as string)
+      .replace('{min}', String(parsed.min)).replace('{max}', String(parsed.max)).replace('{unit}', unit));
+  };
+
+  return (
+    <>
+      <div className="weight-input">
+        <input
+          type="number"
+          inputMode="decimal"
+          step="0.1"
+          className="form-input"
+          value={draft}
+          onChange={e => handleChange(e.target.value)}
+          onBlur={handleBlur}
+          placeholder={unit === 'kg' ? 'e.g., 65.5' : 'e.g., 144.5'}
+          aria-invalid={!!error}
+        />
+        <span>{unit}</span>
+      </div>
+      {error && <p className="backup-message error">{error}</p>}
+    </>
+  );
+};
+
+const ACTIVITY_KEYS = {
+  walking: 'activityWalking',
+  running: 'activityRunning',
+  cycling: 'activityCycling',
+  swimming: 'activitySwimming',
+  hiking: 'activityHiking',
+  strength: 'activityStrength',
+  yoga: 'activityYoga',
+  dance: 'activityDance',
+  sports: 'activitySports',
+  other: 'activityOther',
+} as const;
+
+const INTENSITY_KEYS = {
+  light: 'intensityLight',
+  moderate: 'intensityModerate',
+  vigorous: 'intensityVigorous',
+} as const;
+
+const ExerciseLog: React.FC<{
+  date: string;
+  daily: AppData['daily'];
+  dailyData: DailyLogData;
+  onChange: <K extends 'exercise' | 'exercises'>(field: K, value: DailyLogData[K]) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ date, daily, dailyData, onChange, t }) => {
+  const [activity, setActivity] = useState<ExerciseActivity>('walking');
+  const [intensity, setIntensity] = useState<ExerciseIntensity>('moderate');
+  const [duration, setDuration] = useState('');
+  const [amount, setAmount] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const measure = EXERCISE_MEASURES[activity];
+  const durationMinutes = parseFloat(duration);
+  const parsedAmount = amount.trim() === '' ? null : parseFloat(amount);
+  const isValid = durationMinutes > 0 && (parsedAmount === null || parsedAmount >= 0);
+  // Today's weigh-in may not be logged yet, so the estimate falls back to the latest earlier one.
+  const weight = getLatestWeight(daily, date);
+  const burned = getBurnedKcal(daily, date, dailyData);
+  const eaten = getDayNutrients(dailyData).kcal;
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    onChange('exercises', [...dailyData.exercises, createExerciseEntry({
+      activity,
+      durationMinutes,
+      intensity,
+      distanceKm: measure === 'distance' ? parsedAmount : null,
+      sets: measure === 'sets' && parsedAmount !== null ? Math.round(parsedAmount) : null,
+      notes: notes.trim(),
+    })]);
+    setDuration('');
+    setAmount('');
+    setNotes('');
+  };
+
+  const describe = (entry: ExerciseEntry) => [
+    `${entry.durationMinutes} min`,
+    t(INTENSITY_KEYS[entry.intensity]) as string,
+    entry.distanceKm !== null ? `${entry.distanceKm} km` : '',
+    entry.sets !== null ? (t('exerciseSetsValue') as string).replace('{sets}', String(entry.sets)) : '',
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="card exercise-log">
+      <h3 className="card-title">{t('exercise')}</h3>
+      {dailyData.exercises.length === 0 ? <p className="food-items-empty">{t('noExercises')}</p> : (
+        <ul className="food-item-list">
+          {dailyData.exercises.map(entry => (
+            <li key={entry.id} className="food-item">
+              <div className="food-item-name">
+                <span>{t(ACTIVITY_KEYS[entry.activity])}</span>
+                <small>{describe(entry)}</small>
+                {entry.notes && <small>{entry.notes}</small>}
+              </div>
+              {weight !== null && <span className="food-item-kcal">{Math.round(getExerciseKcal(entry, weight))} {t('kcal')}</span>}
+              <button
+                className="food-item-remove"
+                onClick={() => onChange('exercises', dailyData.exercises.filter(other => other.id !== entry.id))}
+                aria-label={t('remove') as string}
+              >×</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="custom-food-fields">
+        <label>
+          {t('exerciseActivity')}
+          <select className="form-input" value={activity} onChange={e => setActivity(e.target.value as ExerciseActivity)}>
+            {EXERCISE_ACTIVITIES.map(option => <option key={option} value={option}>{t(ACTIVITY_KEYS[option])}</option>)}
+          </select>
+        </label>
+        <label>
+          {t('exerciseIntensity')}
+          <select className="form-input" value={intensity} onChange={e => setIntensity(e.target.value as ExerciseIntensity)}>
+            {EXERCISE_INTENSITIES.map(option => <option key={option} value={option}>{t(INTENSITY_KEYS[option])}</option>)}
+          </select>
+        </label>
+        <label>
+          {t('exerciseDuration')}
+          <input type="number" min="1" step="5" className="form-input" value={duration} onChange={e => setDuration(e.target.value)} />
+        </label>
+        {measure && (
+          <label>
+            {t(measure === 'distance' ? 'exerciseDistance' : 'exerciseSets')}
+            <input
+              type="number"
+              min="0"
+              step={measure === 'distance' ? '0.1' : '1'}
+              className="form-input"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+            />
+          </label>
+        )}
+      </div>
+      <div className="exercise-add">
+        <input className="form-input" value={notes} onChange={e => setNotes(e.target.value)} placeholder={t('exerciseNotes') as string} aria-label={t('exerciseNotes') as string} />
+        <button className="control-button" onClick={handleAdd} disabled={!isValid}>{t('addExercise')}</button>
+      </div>
+
+      {dailyData.exercises.length > 0 && (
+        burned === null ? <p className="backup-description">{t('burnedNeedsWeight')}</p> : (
+          <div className="meal-total">
+            <span>{t('caloriesEaten')} {Math.round(eaten)} {t('kcal')} − {t('caloriesBurned')} {Math.round(burned)} {t('kcal')}</span>
+            <span className="nutrition-kcal">{t('netCalories')} {Math.round(eaten - burned)} {t('kcal')}</span>
+          </div>
+        )
+      )}
+
+      {dailyData.exercise.trim() !== '' && (
+        <div className="exercise-legacy">
+          <h4>{t('legacyExercise')}</h4>
+          <textarea className="form-textarea" value={dailyData.exercise} onChange={e => onChange('exercise', e.target.value)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DailyLog: React.FC<{
+  selectedDate: string;
+  setSelectedDate: (date: string) => void;
+  data: AppData;
+  setData: (value: AppData | ((val: AppData) => AppData)) => void;
+  foods: Food[];
+  onCreateFood: (food: Food) => void;
+  goals: Goals;
+  mealSlots: MealSlot[];
+  menuSource: MenuSource;
+  weightUnit: WeightUnit;
+  weekStartDay: WeekStart;
+  lang: Language;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ selectedDate, setSelectedDate, data, setData, foods, onCreateFood, goals, mealSlots, menuSource, weightUnit, weekStartDay, lang, t }) => {
+    
+  const initialDailyData = useMemo(() => createDefaultDailyLog(mealSlots), [mealSlots]);
+  const visibleSlots = getVisibleSlots(mealSlots);
+
+  const dailyData = data.daily[selectedDate] || initialDailyData;
+  const dayPlan = data.weekly[getWeekStartDate(selectedDate, weekStartDay)]?.days[selectedDate] ?? {};
+
+  const updateDailyData = <K extends keyof DailyLogData>(field: K, value: DailyLogData[K]) => {
+    setData(prev => ({
+      ...prev,
+      daily: {
+        ...prev.daily,
+        [selectedDate]: { ...(prev.daily[selectedDate] || initialDailyData), [field]: value },
       },
     }));
   };
   
-  const handleMealChange = (mealType: MealType, field: keyof MealData, value: any) => {
-      const newMeals = {
-          ...dailyData.meals,
-          [mealType]: {
-              ...dailyData.meals[mealType],
-              [field]: value
-          }
-      };
-      updateDailyData('meals', newMeals);
+  // Built from the latest data rather than this render's: photos finish saving after the card was rendered.
+  const handleMealChange = (slot: MealSlot, field: keyof MealData, value: any) => {
+    setData(prev => {
+      const entry = prev.daily[selectedDate] || initialDailyData;
+      const meals = { ...entry.meals, [slot.id]: { ...getMeal(entry, slot), [field]: value } };
+      return { ...prev, daily: { ...prev.daily, [selectedDate]: { ...entry, meals } } };
+    });
   };
   
-  const navigateDay = (offset: number) => {
-    const currentDate = new Date(selectedDate + 'T00:00:00');
-    currentDate.setDate(currentDate.getDate() + offset);
-    setSelectedDate(currentDate.toISOString().split('T')[0]);
-  };
+  const navigateDay = (offset: number) => setSelectedDate(addDays(selectedDate, offset));
   
   const isToday = selectedDate === getTodayDateString();
 
@@ -276,10 +2415,11 @@ const DailyLog: React.FC<{
             </div>
             <button className="date-navigator-btn" onClick={() => navigateDay(1)} disabled={isToday}>{t('nextDay')} &gt;</button>
         </div>
+        <GoalProgress dailyData={dailyData} goals={goals} weightUnit={weightUnit} t={t} />
         <div className="daily-log-grid">
             <div className="card">
                 <h3 className="card-title">{t('weight')}</h3>
-                <input type="number" className="form-input" value={dailyData.weight} onChange={(e) => updateDailyData('weight', e.target.value)} placeholder="e.g., 65.5" />
+                <WeightInput value={dailyData.weight} onChange={weight => updateDailyData('weight', weight)} unit={weightUnit} t={t} />
             </div>
             <div className="card">
                 <h3 className="card-title">{t('sleep')}</h3>
@@ -295,24 +2435,39 @@ const DailyLog: React.FC<{
                     <span>{(t('energyLevels') as string[])[dailyData.energy - 1]}</span>
                 </div>
             </div>
-             <WaterTracker count={dailyData.water} setCount={(c) => updateDailyData('water', c)} t={t} />
-             <div className="card">
-                <h3 className="card-title">{t('exercise')}</h3>
-                <textarea className="form-textarea" value={dailyData.exercise} onChange={(e) => updateDailyData('exercise', e.target.value)} />
-            </div>
+             <WaterTracker count={dailyData.water} setCount={(c) => updateDailyData('water', c)} goalMl={goals.waterMl} t={t} />
+             <ExerciseLog date={selectedDate} daily={data.daily} dailyData={dailyData} onChange={updateDailyData} t={t} />
             <div className="card">
                 <h3 className="card-title">{t('notes')}</h3>
                 <textarea className="form-textarea" value={dailyData.notes} onChange={(e) => updateDailyData('notes', e.target.value)} />
             </div>
+            <div className="card daily-nutrition">
+                <h3 className="card-title">{t('dailyNutrition')}</h3>
+                <NutritionSummary nutrients={getDayNutrients(dailyData)} t={t} />
+                <ul className="daily-nutrition-meals">
+                    {visibleSlots.map(slot => (
+                        <li key={slot.id}>
+                            <span>{getMealSlotLabel(mealSlots, slot.id, t)}</span>
+                            <span>{Math.round(getMealNutrients(getMeal(dailyData, slot)).kcal)} {t('kcal')}</span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
         </div>
 
+        {/* Keyed per day, so a photo still saving when the day changes is attached to the day it was picked on. */}
         <div className="meal-card-container">
-            {(Object.keys(dailyData.meals) as MealType[]).map(mealType => (
+            {visibleSlots.map(slot => (
                 <MealCard
-                    key={mealType}
-                    mealType={mealType}
-                    data={dailyData.meals[mealType]}
-                    onChange={(field, value) => handleMealChange(mealType, field, value)}
+                    key={`${selectedDate}:${slot.id}`}
+                    title={getMealSlotLabel(mealSlots, slot.id, t)}
+                    data={getMeal(dailyData, slot)}
+                    plannedMenu={dayPlan[slot.id]}
+                    onChange={(field, value) => handleMealChange(slot, field, value)}
+                    menuSource={menuSource}
+                    foods={foods}
+                    onCreateFood={onCreateFood}
+                    lang={lang}
                     t={t}
                 />
             ))}
@@ -321,21 +2476,200 @@ const DailyLog: React.FC<{
   );
 };
 
+const PLAN_STATUS_KEYS = {
+  match: 'statusMatch',
+  deviation: 'statusDeviation',
+  unlogged: 'statusUnlogged',
+  upcoming: 'statusUpcoming',
+  unplanned: 'statusUnplanned',
+} as const;
+
+const PlanVsActual: React.FC<{
+  weekStart: string;
+  weekDates: string[];
+  data: AppData;
+  setData: (value: AppData | ((val: AppData) => AppData)) => void;
+  mealSlots: MealSlot[];
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ weekStart, weekDates, data, setData, mealSlots, t }) => {
+  const visibleSlots = useMemo(() => getVisibleSlots(mealSlots), [mealSlots]);
+  const cells = useMemo(
+    () => comparePlan(data, weekStart, weekDates, visibleSlots, getTodayDateString()),
+    [data, weekStart, weekDates, visibleSlots]
+  );
+  const adherence = getAdherence(cells);
+
+  return (
+    <>
+      <div className="card">
+        <h3 className="card-title">{t('adherence')}</h3>
+        {adherence.score === null ? <p className="backup-description">{t('adherenceNone')}</p> : (
+          <div className="adherence-summary">
+            <strong className="stats-value">{Math.round(adherence.score * 100)}%</strong>
+            <span className="stats-meta">
+              {(t('adherenceDetail') as string).replace('{matched}', String(adherence.matched)).replace('{due}', String(adherence.due))}
+            </span>
+          </div>
+        )}
+      </div>
+      <div className="card" style={{marginTop: '1.5rem'}}>
+        <table className="planner-table comparison-table">
+          <thead>
+            <tr>
+              <th>{t('date')}</th>
+              {visibleSlots.map(slot => <th key={slot.id}>{getMealSlotLabel(mealSlots, slot.id, t)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {weekDates.map(date => (
+              <tr key={date}>
+                <td className="date-cell">
+                  {parseDateKey(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric'})}
+                  <br/>
+                  {(t('dayNames') as string[])[getDayOfWeek(date)]}
+                </td>
+                {visibleSlots.map(slot => {
+                  const cell = cells.find(c => c.date === date && c.meal === slot.id)!;
+                  if (cell.status === 'empty') return <td key={slot.id} />;
+                  return (
+                    <td key={slot.id} className={`comparison-cell ${cell.status}`}>
+                      <span className="comparison-status">{t(PLAN_STATUS_KEYS[cell.status])}</span>
+                      {cell.planned && <div><small>{t('planned')}</small> {cell.planned}</div>}
+                      {cell.actual && <div><small>{t('eaten')}</small> {cell.actual}</div>}
+                      {cell.status === 'unlogged' && (
+                        <button className="today-btn" onClick={() => setData(prev => logAsPlanned(prev, date, slot, cell.planned, mealSlots))}>
+                          {t('logAsPlanned')}
+                        </button>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
+
+const SHOPPING_CATEGORY_KEYS = {
+  produce: 'categoryProduce',
+  meatSeafood: 'categoryMeatSeafood',
+  dairyEggs: 'categoryDairyEggs',
+  grains: 'categoryGrains',
+  pantry: 'categoryPantry',
+  other: 'categoryOther',
+} as const;
+
+const ShoppingList: React.FC<{
+  plan: WeeklyPlanData | undefined;
+  recipes: Recipe[];
+  list: ShoppingListState;
+  setList: (list: ShoppingListState) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ plan, recipes, list, setList, t }) => {
+  const [newName, setNewName] = useState('');
+  const [newCategory, setNewCategory] = useState<ShoppingCategory>('other');
+  const items = useMemo(() => buildShoppingList(plan, recipes), [plan, recipes]);
+
+  const rows = [
+    ...items.map(item => ({
+      key: item.key,
+      category: item.category,
+      name: item.name,
+      amount: item.quantity !== null ? `${formatAmount(item.quantity)}${item.unit ? ` ${item.unit}` : ''}` : item.count > 1 ? `×${item.count}` : '',
+      manual: false,
+    })),
+    ...list.manual.map(item => ({ key: item.id, category: item.category, name: item.name, amount: '', manual: true })),
+  ];
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    setList({ ...list, manual: [...list.manual, createManualItem(newName.trim(), newCategory)] });
+    setNewName('');
+  };
+
+  const removeManual = (id: string) => setList({
+    checked: list.checked.filter(key => key !== id),
+    manual: list.manual.filter(item => item.id !== id),
+  });
+
+  return (
+    <div className="card shopping-list">
+      <h3 className="card-title">{t('shoppingList')}</h3>
+      <p className="backup-description">{t('shoppingListDesc')}</p>
+      {rows.length === 0 && <p className="backup-description">{t('shoppingListEmpty')}</p>}
+      {SHOPPING_CATEGORIES.map(category => {
+        const categoryRows = rows.filter(row => row.category === category);
+        if (!categoryRows.length) return null;
+        return (
+          <div key={category} className="shopping-category">
+            <h4>{t(SHOPPING_CATEGORY_KEYS[category])}</h4>
+            <ul>
+              {categoryRows.map(row => (
+                <li key={row.key} className={list.checked.includes(row.key) ? 'checked' : ''}>
+                  <label>
+                    <input type="checkbox" checked={list.checked.includes(row.key)} onChange={() => setList(toggleChecked(list, row.key))} />
+                    <span>{row.name}</span>
+                    {row.amount && <small>{row.amount}</small>}
+                  </label>
+                  {row.manual && (
+                    <button className="food-item-remove" onClick={() => removeManual(row.key)} aria-label={t('remove') as string}>×</button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+      <div className="settings-fields">
+        <label>
+          {t('addShoppingItem')}
+          <input className="form-input" value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleAdd()} />
+        </label>
+        <label>
+          {t('category')}
+          <select className="form-input" value={newCategory} onChange={e => setNewCategory(e.target.value as ShoppingCategory)}>
+            {SHOPPING_CATEGORIES.map(category => <option key={category} value={category}>{t(SHOPPING_CATEGORY_KEYS[category])}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="backup-actions">
+        <button className="control-button" onClick={handleAdd} disabled={!newName.trim()}>{t('add')}</button>
+        {list.checked.length > 0 && <button className="date-navigator-btn" onClick={() => setList({ ...list, checked: [] })}>{t('uncheckAll')}</button>}
+      </div>
+    </div>
+  );
+};
+
 const WeeklyPlanner: React.FC<{
+  weekStart: string;
+  setWeekStart: (weekStart: string) => void;
   data: AppData;
   setData: (value: AppData | ((val: AppData) => AppData)) => void;
+  mealSlots: MealSlot[];
+  menuSource: MenuSource;
+  shoppingList: ShoppingListState;
+  setShoppingList: (list: ShoppingListState) => void;
+  weekStartDay: WeekStart;
+  otherProfiles: Profile[];
   t: (key: keyof (typeof translations)['en']) => string | string[];
-}> = ({ data, setData, t }) => {
-    const today = new Date();
-    const weekStart = getWeekStartDate(today);
+}> = ({ weekStart, setWeekStart, data, setData, mealSlots, menuSource, shoppingList, setShoppingList, weekStartDay, otherProfiles, t }) => {
+    const currentWeekStart = getWeekStartDate(getTodayDateString(), weekStartDay);
+    const [mode, setMode] = useState<'plan' | 'compare' | 'shopping'>('plan');
+    const [copyTarget, setCopyTarget] = useState(otherProfiles[0]?.id ?? '');
+    const [copyMessage, setCopyMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
     
     const weekData = data.weekly[weekStart] || { days: {}, notes: '' };
 
     const handlePlanChange = (date: string, meal: MealType, value: string) => {
         setData(prev => {
-            const newWeekData = {...(prev.weekly[weekStart] || { days: {}, notes: '' })};
-            if(!newWeekData.days[date]) newWeekData.days[date] = {};
-            newWeekData.days[date][meal] = value;
+            const prevWeekData = prev.weekly[weekStart] || { days: {}, notes: '' };
+            const newWeekData = {
+                ...prevWeekData,
+                days: { ...prevWeekData.days, [date]: { ...prevWeekData.days[date], [meal]: value } },
+            };
             return {
                 ...prev,
                 weekly: { ...prev.weekly, [weekStart]: newWeekData }
@@ -354,46 +2688,84 @@ const WeeklyPlanner: React.FC<{
         });
     }
 
-    const weekDates = useMemo(() => {
-        const dates = [];
-        const start = new Date(weekStart);
-        for(let i=0; i<7; i++){
-            const d = new Date(start);
-            d.setDate(start.getDate() + i);
-            dates.push(d);
+    const weekDates = useMemo(() => getRangeDates(weekStart, addDays(weekStart, 6)), [weekStart]);
+
+    const handleCopy = async () => {
+        const target = otherProfiles.find(profile => profile.id === copyTarget);
+        if (!target || !data.weekly[weekStart]) return;
+        try {
+            await copyPlanToProfile(target.id, weekStart, data.weekly[weekStart]);
+            setCopyMessage({ type: 'success', text: (t('planCopied') as string).replace('{name}', getProfileName(target, t)) });
+        } catch (error) {
+            console.error(error);
+            setCopyMessage({ type: 'error', text: t('planCopyFailed') as string });
         }
-        return dates;
-    }, [weekStart]);
+    };
+
+    const formatShortDate = (date: string) =>
+        parseDateKey(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric'});
 
-    const mealTypes: MealType[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+    const mealTypes = getVisibleSlots(mealSlots).map(slot => slot.id);
 
     return (
         <div className="weekly-planner-container">
+            <div className="card date-navigator">
+                <button className="date-navigator-btn" onClick={() => setWeekStart(addDays(weekStart, -7))}>&lt; {t('prevWeek')}</button>
+                <div className="date-picker-container">
+                    <span className="week-range">{formatShortDate(weekStart)} – {formatShortDate(weekDates[6])}</span>
+                    <input
+                        type="date"
+                        value={weekStart}
+                        onChange={e => e.target.value && setWeekStart(getWeekStartDate(e.target.value, weekStartDay))}
+                        aria-label={t('weekOf') as string}
+                    />
+                    {weekStart !== currentWeekStart && <button className="today-btn" onClick={() => setWeekStart(currentWeekStart)}>{t('thisWeek')}</button>}
+                </div>
+                <button className="date-navigator-btn" onClick={() => setWeekStart(addDays(weekStart, 7))}>{t('nextWeek')} &gt;</button>
+            </div>
+            <div className="nav-tabs planner-mode">
+                <button className={`nav-button ${mode === 'plan' ? 'active' : ''}`} onClick={() => setMode('plan')}>{t('planMode')}</button>
+                <button className={`nav-button ${mode === 'compare' ? 'active' : ''}`} onClick={() => setMode('compare')}>{t('compareMode')}</button>
+                <button className={`nav-button ${mode === 'shopping' ? 'active' : ''}`} onClick={() => setMode('shopping')}>{t('shoppingList')}</button>
+            </div>
+            {mode === 'compare' ? (
+                <PlanVsActual weekStart={weekStart} weekDates={weekDates} data={data} setData={setData} mealSlots={mealSlots} t={t} />
+            ) : mode === 'shopping' ? (
+                <ShoppingList plan={data.weekly[weekStart]} recipes={menuSource.recipes} list={shoppingList} setList={setShoppingList} t={t} />
+            ) : (
+            <>
+            {menuSource.recipes.length > 0 && (
+                <div className="card recipe-strip">
+                    <span className="backup-description">{t('dragRecipeHint')}</span>
+                    {menuSource.recipes.map(recipe => <RecipeChip key={recipe.id} recipe={recipe} />)}
+                </div>
+            )}
             <div className="card">
                 <table className="planner-table">
                     <thead>
                         <tr>
                             <th>{t('date')}</th>
-                            {mealTypes.map(meal => <th key={meal}>{t(meal)}</th>)}
+                            {mealTypes.map(meal => <th key={meal}>{getMealSlotLabel(mealSlots, meal, t)}</th>)}
                         </tr>
                     </thead>
                     <tbody>
-                        {weekDates.map(date => {
-                            const dateString = date.toISOString().split('T')[0];
+                        {weekDates.map(dateString => {
                             const dayPlan = weekData.days[dateString] || {};
                             return (
                                 <tr key={dateString}>
                                     <td className="date-cell">
-                                        {date.toLocaleDateString(undefined, { month: 'short', day: 'numeric'})}
+                                        {formatShortDate(dateString)}
                                         <br/>
-                                        {(t('dayNames') as string[])[date.getDay()]}
+                                        {(t('dayNames') as string[])[getDayOfWeek(dateString)]}
                                     </td>
                                     {mealTypes.map(meal => (
                                         <td key={meal}>
-                                            <textarea
+                                            <MenuInput
                                                 value={dayPlan[meal] || ''}
-                                                onChange={(e) => handlePlanChange(dateString, meal, e.target.value)}
+                                                onChange={menu => handlePlanChange(dateString, meal, menu)}
+                                                menuSource={menuSource}
                                                 rows={4}
+                                                t={t}
                                             />
                                         </td>
                                     ))}
@@ -407,287 +2779,2294 @@ const WeeklyPlanner: React.FC<{
                 <h3 className="card-title">{t('weeklyNotes')}</h3>
                 <textarea className="form-textarea" value={weekData.notes} onChange={(e) => handleNotesChange(e.target.value)} />
             </div>
+            {otherProfiles.length > 0 && (
+                <div className="card" style={{marginTop: '1.5rem'}}>
+                    <h3 className="card-title">{t('copyPlan')}</h3>
+                    <p className="backup-description">{t('copyPlanDesc')}</p>
+                    <div className="backup-actions">
+                        <select className="form-input copy-plan-target" value={copyTarget} onChange={e => setCopyTarget(e.target.value)} aria-label={t('copyPlanTo') as string}>
+                            {otherProfiles.map(profile => <option key={profile.id} value={profile.id}>{getProfileName(profile, t)}</option>)}
+                        </select>
+                        <button className="control-button" onClick={handleCopy} disabled={!data.weekly[weekStart]}>{t('copyPlanTo')}</button>
+                    </div>
+                    {copyMessage && <p className={`backup-message ${copyMessage.type}`}>{copyMessage.text}</p>}
+                </div>
+            )}
+            </>
+            )}
+        </div>
+    );
+}
+
+const RecipeChip: React.FC<{ recipe: Recipe }> = ({ recipe }) => (
+  <span
+    className="recipe-chip"
+    draggable
+    onDragStart={e => {
+      e.dataTransfer.setData(RECIPE_DRAG_TYPE, recipe.id);
+      e.dataTransfer.setData('text/plain', recipe.name);
+      e.dataTransfer.effectAllowed = 'copy';
+    }}
+  >
+    {recipe.name}
+  </span>
+);
+
+const RecipeLibrary: React.FC<{
+  recipes: Recipe[];
+  setRecipes: (recipes: Recipe[]) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ recipes, setRecipes, t }) => {
+  const emptyForm = { name: '', ingredients: '', servings: '1', tags: '', notes: '' };
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+
+  const tags = useMemo(() => getRecipeTags(recipes), [recipes]);
+  const visible = useMemo(() => filterRecipes(recipes, query, tag), [recipes, query, tag]);
+  const servings = parseFloat(form.servings);
+  const isValid = form.name.trim() !== '' && servings > 0;
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const fields = {
+      name: form.name.trim(),
+      ingredients: parseList(form.ingredients),
+      servings,
+      tags: parseList(form.tags),
+      notes: form.notes.trim(),
+    };
+    setRecipes(editingId
+      ? recipes.map(recipe => recipe.id === editingId ? { ...recipe, ...fields } : recipe)
+      : [...recipes, createRecipe(fields)]);
+    resetForm();
+  };
+
+  const handleEdit = (recipe: Recipe) => {
+    setEditingId(recipe.id);
+    setForm({
+      name: recipe.name,
+      ingredients: recipe.ingredients.join('\n'),
+      servings: String(recipe.servings),
+      tags: recipe.tags.join(', '),
+      notes: recipe.notes,
+    });
+  };
+
+  const handleDelete = (recipe: Recipe) => {
+    if (!window.confirm((t('confirmDeleteRecipe') as string).replace('{name}', recipe.name))) return;
+    setRecipes(recipes.filter(other => other.id !== recipe.id));
+    if (editingId === recipe.id) resetForm();
+  };
+
+  return (
+    <div className="recipe-library">
+      <div className="card">
+        <h3 className="card-title">{editingId ? t('editRecipe') : t('newRecipe')}</h3>
+        <div className="settings-fields">
+          <label>
+            {t('recipeName')}
+            <input className="form-input" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          </label>
+          <label>
+            {t('recipeServings')}
+            <input type="number" min="0.5" step="0.5" className="form-input" value={form.servings} onChange={e => setForm({ ...form, servings: e.target.value })} />
+          </label>
+          <label>
+            {t('recipeTags')}
+            <input className="form-input" value={form.tags} placeholder={t('recipeTagsHint') as string} onChange={e => setForm({ ...form, tags: e.target.value })} />
+          </label>
+        </div>
+        <div className="form-group">
+          <label>{t('ingredients')}</label>
+          <textarea className="form-textarea" rows={4} value={form.ingredients} placeholder={t('ingredientsHint') as string} onChange={e => setForm({ ...form, ingredients: e.target.value })} />
+        </div>
+        <div className="form-group">
+          <label>{t('notes')}</label>
+          <textarea className="form-textarea" rows={2} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+        </div>
+        <div className="backup-actions">
+          <button className="control-button" onClick={handleSave} disabled={!isValid}>{editingId ? t('saveRecipe') : t('addRecipe')}</button>
+          {editingId && <button className="date-navigator-btn" onClick={resetForm}>{t('cancel')}</button>}
         </div>
+      </div>
+
+      <div className="card" style={{marginTop: '1.5rem'}}>
+        <h3 className="card-title">{t('recipes')}</h3>
+        <p className="backup-description">{t('recipesDesc')}</p>
+        {recipes.length > 0 && (
+          <div className="recipe-filters">
+            <input className="form-input" value={query} onChange={e => setQuery(e.target.value)} placeholder={t('searchRecipes') as string} aria-label={t('searchRecipes') as string} />
+            {tags.length > 0 && (
+              <div className="recipe-tags">
+                {tags.map(name => (
+                  <button key={name} className={`recipe-tag ${tag === name ? 'active' : ''}`} onClick={() => setTag(tag === name ? null : name)}>#{name}</button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        {visible.length === 0 ? <p className="backup-description">{t('recipesEmpty')}</p> : (
+          <ul className="trash-list">
+            {visible.map(recipe => (
+              <li key={recipe.id} className="trash-item">
+                <div>
+                  <RecipeChip recipe={recipe} />
+                  <div className="trash-item-meta">
+                    {(t('servingsCount') as string).replace('{count}', String(recipe.servings))}
+                    {recipe.tags.length > 0 && ` · ${recipe.tags.map(name => `#${name}`).join(' ')}`}
+                  </div>
+                  {recipe.ingredients.length > 0 && <div className="trash-item-meta">{recipe.ingredients.join(', ')}</div>}
+                  {recipe.notes && <div className="trash-item-meta">{recipe.notes}</div>}
+                </div>
+                <div className="trash-item-actions">
+                  <button className="date-navigator-btn" onClick={() => handleEdit(recipe)}>{t('edit')}</button>
+                  <button className="date-navigator-btn" onClick={() => handleDelete(recipe)}>{t('remove')}</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SEARCH_FIELD_KEYS = {
+  menu: 'fieldMenu',
+  mealNotes: 'fieldMealNotes',
+  exercise: 'fieldExercise',
+  notes: 'fieldNotes',
+  plan: 'fieldPlan',
+  weeklyNotes: 'fieldWeeklyNotes',
+} as const;
+
+const MAX_SEARCH_RESULTS = 200;
+
+const SearchView: React.FC<{
+  data: AppData;
+  mealSlots: MealSlot[];
+  onOpenDay: (date: string) => void;
+  // Opens the planner on the week containing `date`.
+  onOpenWeek: (date: string) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ data, mealSlots, onOpenDay, onOpenWeek, t }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const results = useMemo(() => query.trim() ? searchDiary(data, query, filters) : [], [data, query, filters]);
+
+  const renderSnippet = (result: SearchResult) => {
+    const start = Math.max(0, result.matchStart - 40);
+    const end = result.matchStart + result.matchLength;
+    return (
+      <>
+        {start > 0 && '…'}
+        {result.text.slice(start, result.matchStart)}
+        <mark>{result.text.slice(result.matchStart, end)}</mark>
+        {result.text.slice(end, end + 80)}
+        {end + 80 < result.text.length && '…'}
+      </>
     );
+  };
+
+  const openResult = (result: SearchResult) => {
+    if (result.section === 'daily') {
+      onOpenDay(result.date);
+    } else {
+      onOpenWeek(result.date);
+    }
+  };
+
+  return (
+    <div className="search-view">
+      <div className="card">
+        <input
+          type="search"
+          className="form-input search-input"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('searchPlaceholder') as string}
+          aria-label={t('search') as string}
+          autoFocus
+        />
+        <div className="settings-fields search-filters">
+          <label>
+            {t('mealFilter')}
+            <select className="form-input" value={filters.meal ?? ''} onChange={e => setFilters({ ...filters, meal: e.target.value || null })}>
+              <option value="">{t('allMeals')}</option>
+              {mealSlots.map(slot => <option key={slot.id} value={slot.id}>{getMealSlotLabel(mealSlots, slot.id, t)}</option>)}
+            </select>
+          </label>
+          <label>
+            {t('ratingFilter')}
+            <select className="form-input" value={filters.rating ?? ''} onChange={e => setFilters({ ...filters, rating: e.target.value ? Number(e.target.value) : null })}>
+              <option value="">{t('anyRating')}</option>
+              {RATING_EMOJIS.map((emoji, i) => <option key={emoji} value={i + 1}>{emoji}</option>)}
+            </select>
+          </label>
+          <label>
+            {t('rangeFrom')}
+            <input type="date" className="form-input" value={filters.from} onChange={e => setFilters({ ...filters, from: e.target.value })} />
+          </label>
+          <label>
+            {t('rangeTo')}
+            <input type="date" className="form-input" value={filters.to} onChange={e => setFilters({ ...filters, to: e.target.value })} />
+          </label>
+        </div>
+        {filters !== EMPTY_FILTERS && <button className="today-btn" onClick={() => setFilters(EMPTY_FILTERS)}>{t('clearFilters')}</button>}
+      </div>
+
+      {query.trim() && (
+        <div className="card" style={{marginTop: '1.5rem'}}>
+          <h3 className="card-title">{(t('searchResults') as string).replace('{count}', String(results.length))}</h3>
+          {results.length === 0 ? <p className="backup-description">{t('noSearchResults')}</p> : (
+            <ul className="trash-list search-results">
+              {results.slice(0, MAX_SEARCH_RESULTS).map(result => (
+                <li key={result.id} className="trash-item">
+                  <button className="search-result" onClick={() => openResult(result)}>
+                    <span className="trash-item-meta">
+                      {parseDateKey(result.date).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', weekday: 'short' })}
+                      {' · '}{t(SEARCH_FIELD_KEYS[result.field])}
+                      {result.meal && ` · ${getMealSlotLabel(mealSlots, result.meal, t)}`}
+                    </span>
+                    <span>{renderSnippet(result)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {results.length > MAX_SEARCH_RESULTS && (
+            <p className="backup-description">{(t('moreResults') as string).replace('{count}', String(results.length - MAX_SEARCH_RESULTS))}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ChartSeries {
+  label: string;
+  points: SeriesPoint[];
+  // Both by default; 'points' leaves out the connecting line and 'line' the dots.
+  style?: 'line' | 'points';
 }
 
-const WeightChart: React.FC<{
-  chartData: { date: string, weight: number }[];
+const LineChart: React.FC<{
+  title: string;
+  series: ChartSeries[];
+  from: string;
+  to: string;
+  yLabel: string;
+  formatValue?: (value: number) => string;
+  // Extra content under the chart, e.g. stats derived from the series.
+  children?: React.ReactNode;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ title, series, from, to, yLabel, formatValue = formatAmount, children, t }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [tooltip, setTooltip] = useState<{ x: number; y: number; date: string; value: number; label: string; } | null>(null);
+
+  const SVG_WIDTH = 600;
+  const SVG_HEIGHT = 400;
+  const PADDING = { top: 20, right: 30, bottom: 60, left: 50 };
+
+  const values = series.flatMap(s => s.points.map(d => d.value));
+  // A flat series still needs a non-zero domain to be drawn.
+  const minValue = Math.min(...values) - (Math.max(...values) === Math.min(...values) ? 1 : 0);
+  const maxValue = Math.max(...values) + (Math.max(...values) === Math.min(...values) ? 1 : 0);
+
+  const minDate = parseDateKey(from).getTime();
+  const maxDate = Math.max(parseDateKey(to).getTime(), minDate + 1);
+
+  const yTicks = useMemo(() => {
+    const tickCount = 5;
+    const step = (maxValue - minValue) / (tickCount - 1);
+    return Array.from({length: tickCount}, (_, i) => parseFloat((minValue + (i * step)).toFixed(1)));
+  }, [minValue, maxValue]);
+  
+  const xTicks = useMemo(() => {
+    const tickCount = 7;
+    const step = (maxDate - minDate) / (tickCount - 1);
+    return Array.from({length: tickCount}, (_, i) => new Date(minDate + (i * step)));
+  }, [minDate, maxDate]);
+
+  const getX = (time: number) => PADDING.left + ((time - minDate) / (maxDate - minDate)) * (SVG_WIDTH - PADDING.left - PADDING.right);
+  const getY = (value: number) => PADDING.top + ((maxValue - value) / (maxValue - minValue)) * (SVG_HEIGHT - PADDING.top - PADDING.bottom);
+  const getCoords = (dateStr: string, value: number) => ({ x: getX(parseDateKey(dateStr).getTime()), y: getY(value) });
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!svgRef.current) return;
+    const svgPoint = svgRef.current.createSVGPoint();
+    svgPoint.x = e.clientX;
+    svgPoint.y = e.clientY;
+    
+    const inverted = svgPoint.matrixTransform(svgRef.current.getScreenCTM()?.inverse());
+    
+    let closestPoint = null;
+    let minDistance = Infinity;
+
+    series.forEach(s => s.points.forEach(d => {
+        const {x, y} = getCoords(d.date, d.value);
+        const distance = Math.sqrt(Math.pow(inverted.x - x, 2) + Math.pow(inverted.y - y, 2));
+        if (distance < minDistance) {
+            minDistance = distance;
+            closestPoint = {x, y, date: d.date, value: d.value, label: s.label};
+        }
+    }));
+
+    if (closestPoint && minDistance < 30) {
+        setTooltip(closestPoint);
+    } else {
+        setTooltip(null);
+    }
+  };
+
+  if (values.length < 2) {
+    return (
+      <div className="weight-chart-container">
+        <h4>{title}</h4>
+        <p className="chart-empty">{t('notEnoughData')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="weight-chart-container">
+        <h4>{title}</h4>
+        {series.length > 1 && (
+            <ul className="chart-legend">
+                {series.map((s, i) => <li key={s.label} className={`series-${i % 6}`}>{s.label}</li>)}
+            </ul>
+        )}
+        <div className="chart-wrapper">
+             <svg ref={svgRef} viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} onMouseMove={handleMouseMove} onMouseLeave={() => setTooltip(null)}>
+                {/* Axes and Grid lines */}
+                <g className="chart-grid">
+                    {yTicks.map(tick => (
+                        <line key={tick} className="chart-grid-line" x1={PADDING.left} x2={SVG_WIDTH - PADDING.right} y1={getY(tick)} y2={getY(tick)} />
+                    ))}
+                </g>
+                <g className="chart-axes">
+                    <line className="chart-axis-line" x1={PADDING.left} y1={SVG_HEIGHT - PADDING.bottom} x2={SVG_WIDTH - PADDING.right} y2={SVG_HEIGHT - PADDING.bottom} />
+                    <line className="chart-axis-line" x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={SVG_HEIGHT - PADDING.bottom} />
+                    
+                    {yTicks.map(tick => (
+                        <text key={`ytick-${tick}`} className="chart-axis-text" x={PADDING.left - 8} y={getY(tick) + 3} textAnchor="end">{formatValue(tick)}</text>
+                    ))}
+                     <text className="chart-axis-label" transform={`translate(${PADDING.left/3}, ${SVG_HEIGHT/2}) rotate(-90)`}>{yLabel}</text>
+                    
+                    {xTicks.map((tick, i) => (
+                         <text key={`xtick-${i}`} className="chart-axis-text" x={getX(tick.getTime())} y={SVG_HEIGHT - PADDING.bottom + 20} textAnchor="middle">
+                            {tick.toLocaleDateString(undefined, {month: 'short', day: 'numeric'})}
+                         </text>
+                    ))}
+                    <text className="chart-axis-label" x={SVG_WIDTH/2} y={SVG_HEIGHT - PADDING.bottom + 45}>{t('date')}</text>
+                </g>
+
+                {series.map((s, i) => (
+                    <g key={s.label} className={`series-${i % 6}`}>
+                        {/* Data line */}
+                        {s.style !== 'points' && <polyline className="chart-line" points={s.points.map(d => {
+                            const { x, y } = getCoords(d.date, d.value);
+                            return `${x},${y}`;
+                        }).join(' ')} />}
+
+                        {/* Data points; dense ranges only show the hovered one */}
+                        <g className="chart-points">
+                            {s.points.map(d => {
+                                const { x, y } = getCoords(d.date, d.value);
+                                const isTooltipActive = tooltip?.date === d.date && tooltip.label === s.label;
+                                if ((s.style === 'line' || (!s.style && s.points.length > 90)) && !isTooltipActive) return null;
+                                return (
+                                  <circle
+                                    key={d.date}
+                                    className="chart-point"
+                                    cx={x}
+                                    cy={y}
+                                    r={isTooltipActive ? 7 : 4}
+                                  />
+                                );
+                            })}
+                        </g>
+                    </g>
+                ))}
+                
+                {/* Tooltip */}
+                {tooltip && (
+                    <g transform={`translate(${tooltip.x}, ${tooltip.y})`}>
+                        <foreignObject x={-70} y={-65} width="140" height="50">
+                             <div className="chart-tooltip">
+                                <div className="tooltip-date">{parseDateKey(tooltip.date).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric'})}</div>
+                                <div className="tooltip-value">{series.length > 1 && `${tooltip.label} · `}{formatValue(tooltip.value)}</div>
+                            </div>
+                        </foreignObject>
+                    </g>
+                )}
+            </svg>
+        </div>
+        {children}
+    </div>
+  );
+};
+
+const StatsTile: React.FC<{
+  label: string;
+  stats: SeriesStats | null;
+  formatValue?: (value: number) => string;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ label, stats, formatValue = formatAmount, t }) => (
+  <div className="stats-tile">
+    <span className="stats-label">{label}</span>
+    {stats ? (
+      <>
+        <strong className="stats-value">{formatValue(stats.average)}</strong>
+        <span className="stats-meta">{t('statsMin')} {formatValue(stats.min.value)} · {t('statsMax')} {formatValue(stats.max.value)}</span>
+      </>
+    ) : (
+      <strong className="stats-value">–</strong>
+    )}
+  </div>
+);
+
+const WeightChart: React.FC<{
+  daily: AppData['daily'];
+  from: string;
+  to: string;
+  unit: WeightUnit;
+  targetWeight: number | null;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ daily, from, to, unit, targetWeight, t }) => {
+  // The trend starts from the first weigh-in ever, so it is already settled at the start of the range.
+  const { raw, trend, weeklyRate, goalDate } = useMemo(() => {
+    const points = getWeightPoints(daily).filter(point => point.date <= to);
+    const fullTrend = getWeightTrend(points);
+    const rate = getWeeklyRate(fullTrend);
+    const toDisplay = (list: SeriesPoint[]) =>
+      list.filter(point => point.date >= from).map(point => ({ date: point.date, value: toDisplayWeight(point.value, unit) }));
+    return {
+      raw: toDisplay(points),
+      trend: toDisplay(fullTrend),
+      weeklyRate: rate,
+      goalDate: targetWeight === null ? null : projectGoalDate(fullTrend, rate, targetWeight),
+    };
+  }, [daily, from, to, unit, targetWeight]);
+
+  const projection = weeklyRate === null ? t('projectionNeedsWeek')
+    : targetWeight === null ? t('projectionNoTarget')
+    : goalDate === null ? t('projectionNotHeading')
+    : null;
+
+  return (
+    <LineChart
+      title={t('weightTrend') as string}
+      series={[
+        { label: t('weight') as string, points: raw, style: 'points' },
+        { label: t('weightTrendLine') as string, points: trend, style: 'line' },
+      ]}
+      from={from}
+      to={to}
+      yLabel={(t('weightAxisLabel') as string).replace('{unit}', unit)}
+      t={t}
+    >
+      {raw.length > 1 && (
+        <div className="stats-grid weight-trend-stats">
+          <div className="stats-tile">
+            <span className="stats-label">{t('weeklyRate')}</span>
+            <strong className="stats-value">
+              {weeklyRate === null ? '–' : (t('weeklyRateValue') as string).replace('{rate}', formatWeightChange(weeklyRate, unit))}
+            </strong>
+          </div>
+          <div className="stats-tile">
+            <span className="stats-label">{t('projectedGoalDate')}</span>
+            {goalDate
+              ? <strong className="stats-value">{parseDateKey(goalDate).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}</strong>
+              : <span className="stats-meta">{projection}</span>}
+            {goalDate && targetWeight !== null && <span className="stats-meta">{formatWeight(targetWeight, unit)}</span>}
+          </div>
+        </div>
+      )}
+    </LineChart>
+  );
+};
+
+const InsightsPanel: React.FC<{
+  insights: Insight[];
+  weightUnit: WeightUnit;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ insights, weightUnit, t }) => {
+  const formatSigned = (kg: number) => `${kg > 0 ? '+' : ''}${toDisplayWeight(kg, weightUnit).toFixed(2)} ${weightUnit}`;
+
+  const describe = (insight: Insight) => {
+    const { a, b } = insight.values;
+    switch (insight.id) {
+      case 'sleepEnergy':
+        return (t('insightSleepEnergy') as string)
+          .replace('{hours}', String(GOOD_SLEEP_HOURS)).replace('{a}', a.toFixed(1)).replace('{b}', b.toFixed(1));
+      case 'lateMealWeight':
+        return (t('insightLateMealWeight') as string)
+          .replace('{hour}', String(LATE_MEAL_HOUR)).replace('{a}', formatSigned(a)).replace('{b}', formatSigned(b));
+      case 'ratingNextDayEnergy':
+        return t(insight.direction > 0 ? 'insightRatingEnergyPositive' : 'insightRatingEnergyNegative') as string;
+      case 'waterEnergy':
+        return t(insight.direction > 0 ? 'insightWaterEnergyPositive' : 'insightWaterEnergyNegative') as string;
+    }
+  };
+
+  return (
+    <div className="card insights-panel">
+      <h3 className="card-title">{t('insights')}</h3>
+      <p className="backup-description">{(t('insightsDesc') as string).replace('{min}', String(MIN_GROUP_SIZE))}</p>
+      {insights.length === 0 ? <p className="backup-description">{t('insightsNone')}</p> : (
+        <ul className="trash-list">
+          {insights.slice(0, 3).map(insight => (
+            <li key={insight.id} className="trash-item">
+              <div>
+                <strong>{describe(insight)}</strong>
+                <div className="trash-item-meta">
+                  {t(insight.strength >= 0.5 ? 'insightStrong' : 'insightModerate')}
+                  {' · '}{(t('basedOnDays') as string).replace('{count}', String(insight.sampleSize))}
+                  {'r' in insight.values && ` · r = ${insight.values.r.toFixed(2)}`}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const AnalysisView: React.FC<{
+  data: AppData;
+  mealSlots: MealSlot[];
+  weightUnit: WeightUnit;
+  targetWeight: number | null;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ data, mealSlots, weightUnit, targetWeight, t }) => {
+    const today = getTodayDateString();
+    const [rangeDays, setRangeDays] = useState<number | 'custom'>(30);
+    const [customRange, setCustomRange] = useState(() => ({ from: getRangeStart(today, 30), to: today }));
+
+    const { from, to } = rangeDays === 'custom' ? customRange : { from: getRangeStart(today, rangeDays), to: today };
+    const isValidRange = !!from && !!to && from <= to;
+    const dates = useMemo(() => isValidRange ? getRangeDates(from, to) : [], [from, to, isValidRange]);
+
+    const metricSeries = useMemo(() => {
+        const metrics: AnalysisMetric[] = ['weight', 'sleep', 'energy', 'water', 'rating'];
+        return Object.fromEntries(metrics.map(metric => [metric, buildMetricSeries(data.daily, dates, metric)])) as Record<AnalysisMetric, SeriesPoint[]>;
+    }, [data.daily, dates]);
+    const mealTimeSeries = useMemo(() => getVisibleSlots(mealSlots).map(slot => ({
+        label: getMealSlotLabel(mealSlots, slot.id, t),
+        points: buildMealTimeSeries(data.daily, dates, slot),
+    })), [data.daily, dates, mealSlots, t]);
+    const exerciseSeries = useMemo(() => ({
+        minutes: buildExerciseSeries(data.daily, dates, 'minutes'),
+        kcal: buildExerciseSeries(data.daily, dates, 'kcal'),
+    }), [data.daily, dates]);
+    const activeDays = exerciseSeries.minutes.filter(point => point.value > 0).length;
+    const logging = useMemo(() => getLoggingStats(data.daily, dates), [data.daily, dates]);
+    const insights = useMemo(() => computeInsights(data.daily, dates), [data.daily, dates]);
+
+    const formatRating = (value: number) => value.toFixed(1);
+
+    return (
+        <div className="analysis-view">
+            <div className="card analysis-range">
+                <div className="nav-tabs">
+                    {ANALYSIS_RANGES.map(days => (
+                        <button key={days} className={`nav-button ${rangeDays === days ? 'active' : ''}`} onClick={() => setRangeDays(days)}>
+                            {(t('lastDays') as string).replace('{days}', String(days))}
+                        </button>
+                    ))}
+                    <button className={`nav-button ${rangeDays === 'custom' ? 'active' : ''}`} onClick={() => setRangeDays('custom')}>{t('customRange')}</button>
+                </div>
+                {rangeDays === 'custom' && (
+                    <div className="settings-fields">
+                        <label>
+                            {t('rangeFrom')}
+                            <input type="date" className="form-input" value={customRange.from} max={customRange.to} onChange={e => setCustomRange({ ...customRange, from: e.target.value })} />
+                        </label>
+                        <label>
+                            {t('rangeTo')}
+                            <input type="date" className="form-input" value={customRange.to} min={customRange.from} onChange={e => setCustomRange({ ...customRange, to: e.target.value })} />
+                        </label>
+                    </div>
+                )}
+                {!isValidRange && <p className="backup-message error">{t('invalidRange')}</p>}
+            </div>
+
+            {isValidRange && (
+                <>
+                    <div className="card">
+                        <h3 className="card-title">{t('summaryStats')}</h3>
+                        <div className="stats-grid">
+                            <div className="stats-tile">
+                                <span className="stats-label">{t('loggingCompleteness')}</span>
+                                <strong className="stats-value">{Math.round(logging.completeness * 100)}%</strong>
+                                <span className="stats-meta">{(t('loggedDaysOf') as string).replace('{logged}', String(logging.loggedDays)).replace('{total}', String(logging.totalDays))}</span>
+                            </div>
+                            <div className="stats-tile">
+                                <span className="stats-label">{t('currentStreak')}</span>
+                                <strong className="stats-value">{(t('daysCount') as string).replace('{count}', String(logging.currentStreak))}</strong>
+                                <span className="stats-meta">{t('longestStreak')}: {(t('daysCount') as string).replace('{count}', String(logging.longestStreak))}</span>
+                            </div>
+                            <StatsTile label={`${t('weight')} (${weightUnit})`} stats={getSeriesStats(metricSeries.weight)} formatValue={value => formatWeightValue(value, weightUnit)} t={t} />
+                            <StatsTile label={t('sleep') as string} stats={getSeriesStats(metricSeries.sleep)} t={t} />
+                            <StatsTile label={t('energyLevel') as string} stats={getSeriesStats(metricSeries.energy)} formatValue={formatRating} t={t} />
+                            <StatsTile label={`${t('water')} (ml)`} stats={getSeriesStats(metricSeries.water)} formatValue={value => String(Math.round(value))} t={t} />
+                            <StatsTile label={t('mealRating') as string} stats={getSeriesStats(metricSeries.rating)} formatValue={formatRating} t={t} />
+                            <StatsTile label={t('exerciseMinutes') as string} stats={getSeriesStats(exerciseSeries.minutes)} formatValue={value => String(Math.round(value))} t={t} />
+                            <div className="stats-tile">
+                                <span className="stats-label">{t('activeDays')}</span>
+                                <strong className="stats-value">{(t('daysCount') as string).replace('{count}', String(activeDays))}</strong>
+                                <span className="stats-meta">{(t('activeDaysOf') as string).replace('{active}', String(activeDays)).replace('{logged}', String(logging.loggedDays))}</span>
+                            </div>
+                        </div>
+                    </div>
+                    <InsightsPanel insights={insights} weightUnit={weightUnit} t={t} />
+                    <WeightChart daily={data.daily} from={from} to={to} unit={weightUnit} targetWeight={targetWeight} t={t} />
+                    <LineChart title={t('sleep') as string} series={[{ label: t('sleep') as string, points: metricSeries.sleep }]} from={from} to={to} yLabel={t('hoursAxisLabel') as string} t={t} />
+                    <LineChart title={t('energyLevel') as string} series={[{ label: t('energyLevel') as string, points: metricSeries.energy }]} from={from} to={to} yLabel="1–5" t={t} />
+                    <LineChart title={t('water') as string} series={[{ label: t('water') as string, points: metricSeries.water }]} from={from} to={to} yLabel="ml" formatValue={value => String(Math.round(value))} t={t} />
+                    <LineChart title={t('mealRating') as string} series={[{ label: t('mealRating') as string, points: metricSeries.rating }]} from={from} to={to} yLabel="1–4" formatValue={formatRating} t={t} />
+                    <LineChart title={t('exerciseMinutes') as string} series={[{ label: t('exerciseMinutes') as string, points: exerciseSeries.minutes }]} from={from} to={to} yLabel={t('minutesAxisLabel') as string} formatValue={value => String(Math.round(value))} t={t} />
+                    <LineChart title={t('caloriesBurnedChart') as string} series={[{ label: t('caloriesBurnedChart') as string, points: exerciseSeries.kcal }]} from={from} to={to} yLabel="kcal" formatValue={value => String(Math.round(value))} t={t} />
+                    <LineChart title={t('mealTiming') as string} series={mealTimeSeries} from={from} to={to} yLabel={t('mealTime') as string} formatValue={formatHours} t={t} />
+                </>
+            )}
+        </div>
+    );
+};
+
+const HEATMAP_METRIC_KEYS = {
+  logged: 'metricLogged',
+  meals: 'metricMeals',
+  water: 'metricWater',
+  sleep: 'metricSleep',
+  energy: 'metricEnergy',
+  weightDelta: 'metricWeightDelta',
+  rating: 'metricRating',
+} as const;
+
+const HeatmapLegend: React.FC<{
+  metric: HeatmapMetric;
+  scale: HeatmapScale;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ metric, scale, t }) => (
+  <div className="heatmap-legend">
+    {scale.diverging ? (
+      <>
+        <span>{t('legendDown')}</span>
+        {[4, 3, 2, 1].map(level => <span key={-level} className={`heatmap-swatch ${getHeatmapClass(-level)}`} />)}
+        {[1, 2, 3, 4].map(level => <span key={level} className={`heatmap-swatch ${getHeatmapClass(level)}`} />)}
+        <span>{t('legendUp')}</span>
+      </>
+    ) : (
+      <>
+        <span>{metric === 'logged' ? '' : formatAmount(scale.min)}</span>
+        {[1, 2, 3, 4].map(level => <span key={level} className={`heatmap-swatch ${getHeatmapClass(level)}`} />)}
+        <span>{metric === 'logged' ? t('metricLogged') : metric === 'meals' ? '100%' : formatAmount(scale.max)}</span>
+      </>
+    )}
+  </div>
+);
+
+const HOVER_PHOTO_LIMIT = 4;
+
+const CalendarView: React.FC<{
+  dailyData: Record<string, DailyLogData>;
+  onDateSelect: (date: string) => void;
+  mealSlots: MealSlot[];
+  goals: Goals;
+  weightUnit: WeightUnit;
+  weekStartDay: WeekStart;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ dailyData, onDateSelect, mealSlots, goals, weightUnit, weekStartDay, t }) => {
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [mode, setMode] = useState<'month' | 'year'>('month');
+  const [metric, setMetric] = useState<HeatmapMetric>('logged');
+  const [hoveredDate, setHoveredDate] = useState<string | null>(null);
+  const visibleSlots = useMemo(() => getVisibleSlots(mealSlots), [mealSlots]);
+  const scale = getHeatmapScale(metric, goals.waterMl / CUP_ML);
+
+  const getLevel = (dateString: string) => {
+    const value = getHeatmapValue(dailyData, dateString, metric, visibleSlots);
+    return value === null ? null : getHeatmapLevel(value, scale);
+  };
+
+  const summarizeDay = (dateString: string) => {
+    const heading = parseDateKey(dateString).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', weekday: 'short' });
+    const entry = dailyData[dateString];
+    if (!isDayLogged(entry)) return `${heading}\n${t('emptyEntry')}`;
+    const loggedMeals = visibleSlots.filter(slot => isMealLogged(getMeal(entry, slot))).length;
+    const weight = getMetricValue(entry, 'weight');
+    const previousWeight = getPreviousWeight(dailyData, dateString);
+    const rating = getMetricValue(entry, 'rating');
+    const lines = [
+      heading,
+      (t('summaryMeals') as string).replace('{logged}', String(loggedMeals)).replace('{total}', String(visibleSlots.length)),
+      (t('summaryWater') as string).replace('{count}', String(entry.water)),
+      (t('summarySleep') as string).replace('{hours}', String(entry.sleep)),
+      (t('summaryEnergy') as string).replace('{level}', String(entry.energy)),
+    ];
+    if (weight !== null) {
+      const delta = previousWeight === null ? '' : ` (${formatWeightChange(weight - previousWeight, weightUnit)})`;
+      lines.push((t('summaryWeight') as string).replace('{weight}', formatWeight(weight, weightUnit)) + delta);
+    }
+    if (rating !== null) lines.push((t('summaryRating') as string).replace('{rating}', rating.toFixed(1)));
+    const exerciseMinutes = getExerciseMinutes(entry);
+    if (exerciseMinutes > 0) lines.push((t('summaryExercise') as string).replace('{minutes}', String(exerciseMinutes)));
+    return lines.join('\n');
+  };
+
+  const getDayPhotos = (dateString: string) => {
+    const entry = dailyData[dateString];
+    return entry ? visibleSlots.flatMap(slot => getMeal(entry, slot).photos) : [];
+  };
+
+  const handlePrev = () => {
+    setCurrentDate(mode === 'year'
+      ? new Date(currentDate.getFullYear() - 1, currentDate.getMonth(), 1)
+      : new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
+  };
+
+  const handleNext = () => {
+    setCurrentDate(mode === 'year'
+      ? new Date(currentDate.getFullYear() + 1, currentDate.getMonth(), 1)
+      : new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
+  };
+
+  const monthStart = toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1));
+
+  const weeks = useMemo(() => {
+    let date = getWeekStartDate(monthStart, weekStartDay);
+    const generatedWeeks: string[][] = [];
+    for (let i = 0; i < 6; i++) {
+      const week: string[] = [];
+      for (let j = 0; j < 7; j++) {
+        week.push(date);
+        date = addDays(date, 1);
+      }
+      generatedWeeks.push(week);
+    }
+    return generatedWeeks;
+  }, [monthStart, weekStartDay]);
+  
+  // Columns of weeks covering the whole year; days outside the year are null.
+  const yearWeeks = useMemo(() => {
+    const year = currentDate.getFullYear();
+    const first = `${year}-01-01`;
+    const last = `${year}-12-31`;
+    let date = getWeekStartDate(first, weekStartDay);
+    const columns: (string | null)[][] = [];
+    while (date <= last) {
+      const column: (string | null)[] = [];
+      for (let i = 0; i < 7; i++) {
+        column.push(date >= first && date <= last ? date : null);
+        date = addDays(date, 1);
+      }
+      columns.push(column);
+    }
+    return columns;
+  }, [currentDate, weekStartDay]);
+
+  const todayString = getTodayDateString();
+  const lang = t('langToggle') === 'EN' ? 'ko-KR' : 'en-US';
+
+  return (
+    <div className="card calendar-view">
+      <div className="calendar-header">
+        <button onClick={handlePrev} className="calendar-nav-btn" aria-label={mode === 'year' ? 'Previous year' : 'Previous month'}>&lt;</button>
+        <h3>{mode === 'year' ? currentDate.getFullYear() : currentDate.toLocaleString(lang, { year: 'numeric', month: 'long' })}</h3>
+        <button onClick={handleNext} className="calendar-nav-btn" aria-label={mode === 'year' ? 'Next year' : 'Next month'}>&gt;</button>
+      </div>
+      <div className="calendar-controls">
+        <div className="nav-tabs">
+          <button className={`nav-button ${mode === 'month' ? 'active' : ''}`} onClick={() => setMode('month')}>{t('monthView')}</button>
+          <button className={`nav-button ${mode === 'year' ? 'active' : ''}`} onClick={() => setMode('year')}>{t('yearView')}</button>
+        </div>
+        <label>
+          {t('heatmapMetric')}
+          <select className="form-input" value={metric} onChange={e => setMetric(e.target.value as HeatmapMetric)}>
+            {HEATMAP_METRICS.map(option => <option key={option} value={option}>{t(HEATMAP_METRIC_KEYS[option])}</option>)}
+          </select>
+        </label>
+        <HeatmapLegend metric={metric} scale={scale} t={t} />
+      </div>
+      {mode === 'year' ? (
+        <div className="year-heatmap" style={{ gridTemplateColumns: `repeat(${yearWeeks.length}, 1fr)` }}>
+          {yearWeeks.map((column, i) => column.map((dateString, j) => dateString ? (
+            <button
+              key={dateString}
+              className={`year-heatmap-day ${getHeatmapClass(getLevel(dateString))} ${dateString === todayString ? 'is-today' : ''}`}
+              style={{ gridColumn: i + 1, gridRow: j + 1 }}
+              title={summarizeDay(dateString)}
+              aria-label={summarizeDay(dateString)}
+              onClick={() => onDateSelect(dateString)}
+            />
+          ) : <span key={`${i}-${j}`} style={{ gridColumn: i + 1, gridRow: j + 1 }} />))}
+        </div>
+      ) : (
+      <table className="calendar-grid">
+        <thead>
+          <tr>
+            {orderByWeekStart(t('dayNames') as string[], weekStartDay).map(day => <th key={day}>{day}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {weeks.map((week, i) => (
+            <tr key={i}>
+              {week.map((dateString, j) => {
+                const isCurrentMonth = dateString.slice(0, 7) === monthStart.slice(0, 7);
+                const isToday = dateString === todayString;
+                const hasLog = !!dailyData[dateString];
+
+                const cellClasses = [
+                  'calendar-day-cell',
+                  isCurrentMonth ? '' : 'other-month',
+                  isToday ? 'is-today' : '',
+                  metric === 'logged' ? '' : getHeatmapClass(getLevel(dateString)),
+                ].join(' ').trim();
+
+                const photos = hoveredDate === dateString ? getDayPhotos(dateString) : [];
+
+                return (
+                  <td
+                    key={j}
+                    className={cellClasses}
+                    onClick={() => onDateSelect(dateString)}
+                    onMouseEnter={() => setHoveredDate(dateString)}
+                    onMouseLeave={() => setHoveredDate(null)}
+                    aria-label={summarizeDay(dateString)}
+                  >
+                    <div className='calendar-day-content'>
+                        <span className="day-number">{Number(dateString.slice(8))}</span>
+                        {hasLog && <div className="log-indicator"></div>}
+                    </div>
+                    {hoveredDate === dateString && (
+                      <div className={`calendar-hover-card ${j < 2 ? 'align-start' : j > 4 ? 'align-end' : ''}`} role="tooltip">
+                        <p>{summarizeDay(dateString)}</p>
+                        {photos.length > 0 && (
+                          <div className="photo-strip">
+                            {photos.slice(0, HOVER_PHOTO_LIMIT).map(id => <PhotoThumb key={id} id={id} alt="" className="photo-thumb small" />)}
+                            {photos.length > HOVER_PHOTO_LIMIT && (
+                              <span className="photo-more">{(t('morePhotos') as string).replace('{count}', String(photos.length - HOVER_PHOTO_LIMIT))}</span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      )}
+    </div>
+  );
+};
+
+const BACKUP_ERROR_KEYS = {
+  invalidJson: 'importErrorInvalidJson',
+  invalidFormat: 'importErrorInvalidFormat',
+  unsupportedVersion: 'importErrorUnsupportedVersion',
+} as const;
+
+const CSV_ERROR_KEYS = {
+  empty: 'csvErrorEmpty',
+  unknownColumns: 'csvErrorUnknownColumns',
+} as const;
+
+const CSV_ISSUE_KEYS = {
+  invalidDate: 'issueInvalidDate',
+  invalidMeal: 'issueInvalidMeal',
+  invalidNumber: 'issueInvalidNumber',
+} as const;
+
+const BackupView: React.FC<{
+  data: AppData;
+  setData: (value: AppData | ((val: AppData) => AppData)) => void;
+  mealSlots: MealSlot[];
+  weightUnit: WeightUnit;
+  // Backups of an encrypted diary are encrypted too unless the user unticks it.
+  encrypted: boolean;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ data, setData, mealSlots, weightUnit, encrypted, t }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [encryptExport, setEncryptExport] = useState(encrypted);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportConfirm, setExportConfirm] = useState('');
+  const [encryptedFile, setEncryptedFile] = useState<EncryptedBackupFile | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [wrongPassphrase, setWrongPassphrase] = useState(false);
+  const [parseResult, setParseResult] = useState<BackupParseResult | null>(null);
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [csvRange, setCsvRange] = useState(() => ({ from: addDays(getTodayDateString(), -29), to: getTodayDateString() }));
+  const [includeMeals, setIncludeMeals] = useState(true);
+  const [includeExercises, setIncludeExercises] = useState(true);
+  const [csvResult, setCsvResult] = useState<CsvImportResult | null>(null);
+  const [csvMessage, setCsvMessage] = useState<string | null>(null);
+
+  const conflicts = useMemo(() => parseResult?.ok ? findConflicts(data, parseResult.data) : [], [data, parseResult]);
+
+  const referencedPhotos = useMemo(() => getReferencedPhotoIds(data), [data]);
+
+  const formatCounts = (appData: AppData, photoCount: number) => (t('backupCounts') as string)
+    .replace('{days}', String(Object.keys(appData.daily).length))
+    .replace('{weeks}', String(Object.keys(appData.weekly).length))
+    .replace('{photos}', String(photoCount));
+
+  const summarizeDaily = (entry: DailyLogData) => {
+    const parts = Object.keys(entry.meals)
+      .filter(meal => entry.meals[meal].menu.trim())
+      .map(meal => `${getMealSlotLabel(mealSlots, meal, t)}: ${entry.meals[meal].menu.trim()}`);
+    if (entry.weight !== null) parts.push(formatWeight(entry.weight, weightUnit));
+    return parts.length ? parts.join(' · ') : t('emptyEntry') as string;
+  };
+
+  const summarizeWeekly = (entry: WeeklyPlanData) => {
+    const count = Object.values(entry.days).reduce((sum, day) => sum + Object.values(day).filter(menu => menu?.trim()).length, 0);
+    return (t('plannedMeals') as string).replace('{count}', String(count));
+  };
+
+  const exportPassphraseError = !encryptExport ? null
+    : exportPassphrase.length < MIN_PASSPHRASE_LENGTH ? (t('passphraseTooShort') as string).replace('{count}', String(MIN_PASSPHRASE_LENGTH))
+    : exportPassphrase !== exportConfirm ? t('passphraseMismatch') as string
+    : null;
+
+  const handleExport = async () => {
+    if (exportPassphraseError) return;
+    setExporting(true);
+    setExportError(null);
+    let photos: PhotoData = {};
+    try {
+      photos = await exportPhotos(referencedPhotos);
+    } catch (error) {
+      console.error(error);
+      setExportError(t('backupPhotosFailed') as string);
+    }
+    try {
+      const backup = createBackup(data, photos);
+      const file = encryptExport ? await encryptBackup(backup, exportPassphrase) : backup;
+      downloadFile(getBackupFileName(), JSON.stringify(file, null, 2), 'application/json');
+      setExportPassphrase('');
+      setExportConfirm('');
+    } catch (error) {
+      console.error(error);
+      setExportError(t('backupExportFailed') as string);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setMessage(null);
+    setPhotoError(null);
+    setResolutions({});
+    setImportPassphrase('');
+    setWrongPassphrase(false);
+    const text = await file.text();
+    const encryptedBackup = readEncryptedBackup(text);
+    setEncryptedFile(encryptedBackup);
+    setParseResult(encryptedBackup ? null : parseBackup(text));
+  };
+
+  const handleDecrypt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!encryptedFile) return;
+    setImportPassphrase('');
+    let text: string | null;
+    try {
+      text = await decryptBackup(encryptedFile, importPassphrase);
+    } catch (error) {
+      // A wrong passphrase gives null; anything else means the file can't be read.
+      console.error(error);
+      setEncryptedFile(null);
+      setParseResult({ ok: false, error: 'invalidFormat' });
+      return;
+    }
+    if (text === null) {
+      setWrongPassphrase(true);
+      return;
+    }
+    setWrongPassphrase(false);
+    setEncryptedFile(null);
+    setParseResult(parseBackup(text));
+  };
+
+  const resetImport = () => {
+    setParseResult(null);
+    setEncryptedFile(null);
+    setResolutions({});
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleApply = async () => {
+    if (!parseResult?.ok) return;
+    if (mode === 'replace' && !window.confirm(t('confirmReplace') as string)) return;
+    // Photos go in first so the imported entries never point at missing images.
+    try {
+      await importPhotos(parseResult.photos);
+    } catch (error) {
+      console.error(error);
+      setPhotoError(t('importPhotosFailed') as string);
+    }
+    if (mode === 'replace') {
+      setData(prev => ({ ...prev, daily: parseResult.data.daily, weekly: parseResult.data.weekly }));
+    } else {
+      setData(prev => mergeAppData(prev, parseResult.data, resolutions));
+    }
+    resetImport();
+    setMessage(t('importDone') as string);
+  };
+
+  const handleCsvExport = () => {
+    const suffix = `${csvRange.from}_${csvRange.to}`;
+    downloadFile(`food-diary-days-${suffix}.csv`, exportDaysCsv(data.daily, csvRange.from, csvRange.to), 'text/csv;charset=utf-8');
+    if (includeMeals) {
+      downloadFile(`food-diary-meals-${suffix}.csv`, exportMealsCsv(data.daily, csvRange.from, csvRange.to, mealSlots), 'text/csv;charset=utf-8');
+    }
+    if (includeExercises && hasExercisesInRange(data.daily, csvRange.from, csvRange.to)) {
+      downloadFile(`food-diary-exercises-${suffix}.csv`, exportExercisesCsv(data.daily, csvRange.from, csvRange.to), 'text/csv;charset=utf-8');
+    }
+  };
+
+  const handleCsvFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCsvMessage(null);
+    setCsvResult(importCsv(await file.text(), mealSlots));
+  };
+
+  const resetCsvImport = () => {
+    setCsvResult(null);
+    if (csvInputRef.current) csvInputRef.current.value = '';
+  };
+
+  const handleCsvApply = () => {
+    if (!csvResult?.ok) return;
+    setData(prev => applyCsvImport(prev, csvResult.daily, mealSlots));
+    resetCsvImport();
+    setCsvMessage(t('importDone') as string);
+  };
+
+  return (
+    <div className="backup-view">
+      <div className="card">
+        <h3 className="card-title">{t('exportBackup')}</h3>
+        <p className="backup-description">{t('exportBackupDesc')}</p>
+        <p className="backup-counts">{formatCounts(data, referencedPhotos.size)}</p>
+        {exportError && <p className="backup-message error">{exportError}</p>}
+        <label className="reminder-toggle">
+          <input type="checkbox" checked={encryptExport} onChange={e => setEncryptExport(e.target.checked)} />
+          {t('encryptBackup')}
+        </label>
+        {encryptExport && (
+          <div className="settings-fields">
+            <label>
+              {t('backupPassphrase')}
+              <input type="password" className="form-input" autoComplete="new-password" value={exportPassphrase} onChange={e => setExportPassphrase(e.target.value)} />
+            </label>
+            <label>
+              {t('confirmPassphrase')}
+              <input type="password" className="form-input" autoComplete="new-password" value={exportConfirm} onChange={e => setExportConfirm(e.target.value)} />
+            </label>
+          </div>
+        )}
+        {exportPassphraseError && exportPassphrase && <p className="backup-message error">{exportPassphraseError}</p>}
+        <button className="control-button" onClick={handleExport} disabled={exporting || exportPassphraseError !== null}>{t('downloadBackup')}</button>
+      </div>
+      <div className="card">
+        <h3 className="card-title">{t('importBackup')}</h3>
+        <p className="backup-description">{t('importBackupDesc')}</p>
+        {message && <p className="backup-message success">{message}</p>}
+        {photoError && <p className="backup-message error">{photoError}</p>}
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} aria-label={t('importBackup') as string} />
+
+        {encryptedFile && (
+          <form className="backup-import-preview" onSubmit={handleDecrypt}>
+            <p className="backup-description">{t('backupEncrypted')}</p>
+            <div className="settings-fields">
+              <label>
+                {t('backupPassphrase')}
+                <input type="password" className="form-input" value={importPassphrase} onChange={e => setImportPassphrase(e.target.value)} autoFocus />
+              </label>
+            </div>
+            {wrongPassphrase && <p className="backup-message error">{t('wrongPassphrase')}</p>}
+            <div className="backup-actions">
+              <button type="submit" className="control-button" disabled={!importPassphrase}>{t('unlock')}</button>
+              <button type="button" className="date-navigator-btn" onClick={resetImport}>{t('cancel')}</button>
+            </div>
+          </form>
+        )}
+
+        {parseResult && !parseResult.ok && (
+          <p className="backup-message error">{t(BACKUP_ERROR_KEYS[parseResult.error])}</p>
+        )}
+
+        {parseResult?.ok && (
+          <div className="backup-import-preview">
+            <p className="backup-counts">{formatCounts(parseResult.data, Object.keys(parseResult.photos).length)}</p>
+
+            {parseResult.issues.length > 0 && (
+              <div className="backup-issues">
+                <h4>{t('importIssues')} ({parseResult.issues.length})</h4>
+                <ul>
+                  {parseResult.issues.map(issue => (
+                    <li key={`${issue.section}:${issue.key}`}>
+                      {issue.section === 'daily' ? t('dailyLog') : t('weeklyPlan')} · {issue.key} — {t(issue.reason === 'invalidDate' ? 'issueInvalidDate' : 'issueInvalidEntry')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="form-group">
+              <label>{t('importMode')}</label>
+              <div className="backup-mode-group">
+                <label>
+                  <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  {t('importModeMerge')}
+                </label>
+                <label>
+                  <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  {t('importModeReplace')}
+                </label>
+              </div>
+            </div>
+
+            {mode === 'merge' && (
+              <div className="backup-conflicts">
+                <h4>{t('conflicts')} ({conflicts.length})</h4>
+                {conflicts.length === 0 ? <p>{t('noConflicts')}</p> : (
+                  <>
+                    <p className="backup-description">{t('conflictsDesc')}</p>
+                    <table className="backup-conflict-table">
+                      <thead>
+                        <tr>
+                          <th>{t('date')}</th>
+                          <th>{t('currentVersion')}</th>
+                          <th>{t('importedVersion')}</th>
+                          <th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {conflicts.map(conflict => {
+                          const resolution = resolutions[conflict.id] || 'imported';
+                          const summarize = (source: AppData) => conflict.section === 'daily'
+                            ? summarizeDaily(source.daily[conflict.key])
+                            : summarizeWeekly(source.weekly[conflict.key]);
+                          return (
+                            <tr key={conflict.id}>
+                              <td className="date-cell">
+                                {conflict.key}
+                                <br/>
+                                {conflict.section === 'daily' ? t('dailyLog') : t('weeklyPlan')}
+                              </td>
+                              <td className={resolution === 'current' ? 'selected' : ''}>{summarize(data)}</td>
+                              <td className={resolution === 'imported' ? 'selected' : ''}>{summarize(parseResult.data)}</td>
+                              <td>
+                                <select
+                                  className="form-input"
+                                  value={resolution}
+                                  onChange={e => setResolutions(prev => ({ ...prev, [conflict.id]: e.target.value as ConflictResolution }))}
+                                >
+                                  <option value="current">{t('keepCurrent')}</option>
+                                  <option value="imported">{t('useImported')}</option>
+                                </select>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="backup-actions">
+              <button className="control-button" onClick={handleApply}>{t('applyImport')}</button>
+              <button className="date-navigator-btn" onClick={resetImport}>{t('cancel')}</button>
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="card">
+        <h3 className="card-title">{t('csvTitle')}</h3>
+        <p className="backup-description">{t('csvDesc')}</p>
+        <div className="csv-range">
+          <label>
+            {t('dateFrom')}
+            <input type="date" className="form-input" value={csvRange.from} max={csvRange.to} onChange={e => setCsvRange(prev => ({ ...prev, from: e.target.value }))} />
+          </label>
+          <label>
+            {t('dateTo')}
+            <input type="date" className="form-input" value={csvRange.to} min={csvRange.from} onChange={e => setCsvRange(prev => ({ ...prev, to: e.target.value }))} />
+          </label>
+        </div>
+        <label className="csv-option">
+          <input type="checkbox" checked={includeMeals} onChange={e => setIncludeMeals(e.target.checked)} />
+          {t('includeMeals')}
+        </label>
+        <label className="csv-option">
+          <input type="checkbox" checked={includeExercises} onChange={e => setIncludeExercises(e.target.checked)} />
+          {t('includeExercises')}
+        </label>
+        <div className="backup-actions">
+          <button className="control-button" onClick={handleCsvExport} disabled={!csvRange.from || !csvRange.to}>{t('exportCsv')}</button>
+        </div>
+
+        <h4>{t('importCsv')}</h4>
+        {csvMessage && <p className="backup-message success">{csvMessage}</p>}
+        <input ref={csvInputRef} type="file" accept="text/csv,.csv" onChange={handleCsvFileChange} aria-label={t('importCsv') as string} />
+
+        {csvResult && !csvResult.ok && (
+          <p className="backup-message error">{t(CSV_ERROR_KEYS[csvResult.error])}</p>
+        )}
+
+        {csvResult?.ok && (
+          <div className="backup-import-preview">
+            <p className="backup-counts">
+              {(t('csvImportSummary') as string)
+                .replace('{rows}', String(csvResult.rowCount))
+                .replace('{days}', String(Object.keys(csvResult.daily).length))}
+            </p>
+            {csvResult.issues.length > 0 && (
+              <div className="backup-issues">
+                <h4>{t('importIssues')} ({csvResult.issues.length})</h4>
+                <ul>
+                  {csvResult.issues.map(issue => (
+                    <li key={issue.row}>
+                      {(t('csvRow') as string).replace('{row}', String(issue.row))} — {t(CSV_ISSUE_KEYS[issue.reason])}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="backup-actions">
+              <button className="control-button" onClick={handleCsvApply} disabled={Object.keys(csvResult.daily).length === 0}>{t('applyImport')}</button>
+              <button className="date-navigator-btn" onClick={resetCsvImport}>{t('cancel')}</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const StorageNotice: React.FC<{
+  loadResult: StorageLoadResult | null;
+  saveFailed: boolean;
+  onRetrySave: () => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ loadResult, saveFailed, onRetrySave, t }) => {
+  const [dismissed, setDismissed] = useState(false);
+
+  const handleDownload = () => {
+    if (!loadResult?.recoveryBlob) return;
+    downloadFile(`food-diary-recovery-${getTodayDateString()}.json`, loadResult.recoveryBlob, 'application/json');
+  };
+
+  const showLoadNotice = !dismissed && (loadResult?.status === 'safeMode' || loadResult?.status === 'repaired');
+  const loadMessage = loadResult?.status === 'safeMode'
+    ? t('storageSafeMode') as string
+    : (t('storageRepaired') as string)
+        .replace('{repaired}', String(loadResult?.repairedCount ?? 0))
+        .replace('{dropped}', String(loadResult?.droppedCount ?? 0));
+
+  return (
+    <>
+      {saveFailed && (
+        <div className="card storage-notice error" role="alert">
+          <p>{t('storageSaveFailed')}</p>
+          <div className="storage-notice-actions">
+            <button className="control-button" onClick={onRetrySave}>{t('retry')}</button>
+          </div>
+        </div>
+      )}
+      {showLoadNotice && (
+        <div className={`card storage-notice ${loadResult?.status === 'safeMode' ? 'error' : ''}`} role="alert">
+          <p>{loadMessage}</p>
+          <div className="storage-notice-actions">
+            {loadResult?.recoveryBlob && <button className="control-button" onClick={handleDownload}>{t('downloadRecovery')}</button>}
+            <button className="date-navigator-btn" onClick={() => setDismissed(true)}>{t('dismiss')}</button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const UpdateNotice: React.FC<{
+  onReload: () => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ onReload, t }) => {
+  const [dismissed, setDismissed] = useState(false);
+  if (dismissed) return null;
+  return (
+    <div className="card storage-notice" role="status">
+      <p>{t('updateAvailable')}</p>
+      <div className="storage-notice-actions">
+        <button className="control-button" onClick={onReload}>{t('reloadToUpdate')}</button>
+        <button className="date-navigator-btn" onClick={() => setDismissed(true)}>{t('dismiss')}</button>
+      </div>
+    </div>
+  );
+};
+
+const DateCheckNotice: React.FC<{
+  entries: MisdatedEntry[];
+  onMove: () => void;
+  onKeep: () => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ entries, onMove, onKeep, t }) => {
+  const formatDate = (date: string) => parseDateKey(date).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  return (
+    <div className="card storage-notice" role="status">
+      <p>{(t('dateCheckFound') as string).replace('{count}', String(entries.length))}</p>
+      <ul className="date-check-list">
+        {entries.map(entry => <li key={entry.from}>{formatDate(entry.from)} → {formatDate(entry.to)}</li>)}
+      </ul>
+      <div className="storage-notice-actions">
+        <button className="control-button" onClick={onMove}>{t('dateCheckMove')}</button>
+        <button className="date-navigator-btn" onClick={onKeep}>{t('dateCheckKeep')}</button>
+      </div>
+    </div>
+  );
+};
+
+const RecentlyDeleted: React.FC<{
+  data: AppData;
+  setData: (value: AppData | ((val: AppData) => AppData)) => void;
+  trash: DeletedEntry[];
+  setTrash: (value: DeletedEntry[]) => void;
+  retentionDays: number;
+  setRetentionDays: (days: number) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ data, setData, trash, setTrash, retentionDays, setRetentionDays, t }) => {
+  const now = Date.now();
+
+  const handleRestore = (item: DeletedEntry) => {
+    if (data[item.section][item.key] && !window.confirm(t('confirmRestoreOverwrite') as string)) return;
+    setData(prev => restoreDeletedEntry(prev, item));
+    setTrash(trash.filter(other => other.id !== item.id));
+  };
+
+  const handleDeleteForever = (item: DeletedEntry) => {
+    if (!window.confirm(t('confirmDeleteForever') as string)) return;
+    setTrash(trash.filter(other => other.id !== item.id));
+  };
+
+  return (
+    <div className="card recently-deleted" style={{marginTop: '1.5rem'}}>
+      <h3 className="card-title">{t('recentlyDeleted')}</h3>
+      <div className="form-group">
+        <label htmlFor="trash-retention">{t('trashRetention')}</label>
+        <select
+          id="trash-retention"
+          className="form-input trash-retention-select"
+          value={retentionDays}
+          onChange={e => setRetentionDays(parseInt(e.target.value))}
+        >
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <option key={days} value={days}>{(t('retentionDays') as string).replace('{days}', String(days))}</option>
+          ))}
+        </select>
+      </div>
+      {trash.length === 0 ? <p className="backup-description">{t('trashEmpty')}</p> : (
+        <ul className="trash-list">
+          {trash.map(item => {
+            const daysLeft = Math.max(1, Math.ceil((getExpiresAt(item, retentionDays) - now) / (24 * 60 * 60 * 1000)));
+            return (
+              <li key={item.id} className="trash-item">
+                <div>
+                  <strong>{item.section === 'daily' ? t('dailyLog') : t('weeklyPlan')} · {item.key}</strong>
+                  <div className="trash-item-meta">
+                    {(t('deletedOn') as string).replace('{date}', new Date(item.deletedAt).toLocaleString())}
+                    {' · '}
+                    {(t('expiresIn') as string).replace('{days}', String(daysLeft))}
+                  </div>
+                </div>
+                <div className="trash-item-actions">
+                  <button className="control-button" onClick={() => handleRestore(item)}>{t('restore')}</button>
+                  <button className="date-navigator-btn" onClick={() => handleDeleteForever(item)}>{t('deleteForever')}</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const CustomFoodsManager: React.FC<{
+  customFoods: Food[];
+  setCustomFoods: (foods: Food[]) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ customFoods, setCustomFoods, t }) => {
+  const handleDelete = (food: Food) => {
+    if (!window.confirm(t('confirmDeleteFood') as string)) return;
+    setCustomFoods(customFoods.filter(other => other.id !== food.id));
+  };
+
+  return (
+    <div className="card" style={{marginTop: '1.5rem'}}>
+      <h3 className="card-title">{t('myFoods')}</h3>
+      {customFoods.length === 0 ? <p className="backup-description">{t('myFoodsEmpty')}</p> : (
+        <ul className="trash-list">
+          {customFoods.map(food => (
+            <li key={food.id} className="trash-item">
+              <div>
+                <strong>{food.name.en}</strong>
+                <div className="trash-item-meta">{food.serving.label.en} · {Math.round(food.nutrients.kcal)} {t('kcal')}</div>
+              </div>
+              <button className="date-navigator-btn" onClick={() => handleDelete(food)}>{t('remove')}</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const GoalsSettings: React.FC<{
+  revisions: GoalsRevision[];
+  setRevisions: (revisions: GoalsRevision[]) => void;
+  weightUnit: WeightUnit;
+  setWeightUnit: (unit: WeightUnit) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ revisions, setRevisions, weightUnit, setWeightUnit, t }) => {
+  const today = getTodayDateString();
+  const toForm = (goals: Goals) => ({
+    calories: String(goals.calories),
+    protein: String(goals.macroSplit.protein),
+    carbs: String(goals.macroSplit.carbs),
+    fat: String(goals.macroSplit.fat),
+    waterMl: String(goals.waterMl),
+    sleepHours: String(goals.sleepHours),
+    targetWeight: goals.targetWeight === null ? '' : formatWeightValue(goals.targetWeight, weightUnit),
+  });
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const [form, setForm] = useState(() => toForm(getGoalsForDate(revisions, today)));
+  const [message, setMessage] = useState<string | null>(null);
+
+  const targetWeight = parseWeightInput(form.targetWeight, weightUnit);
+  const goals: Goals = {
+    calories: parseFloat(form.calories),
+    macroSplit: { protein: parseFloat(form.protein), carbs: parseFloat(form.carbs), fat: parseFloat(form.fat) },
+    waterMl: parseFloat(form.waterMl),
+    sleepHours: parseFloat(form.sleepHours),
+    targetWeight: targetWeight.ok ? targetWeight.kg : NaN,
+  };
+  const macroSum = goals.macroSplit.protein + goals.macroSplit.carbs + goals.macroSplit.fat;
+  const error = macroSum !== 100 && !isNaN(macroSum)
+    ? (t('macroSumError') as string).replace('{sum}', String(macroSum))
+    : !targetWeight.ok
+      ? (t('weightOutOfRange') as string)
+          .replace('{min}', String(targetWeight.min)).replace('{max}', String(targetWeight.max)).replace('{unit}', weightUnit)
+      : !validateGoals(goals) ? t('goalsInvalid') as string : null;
+
+  // Keep a typed target weight meaning the same weight when the unit changes.
+  const handleUnitChange = (unit: WeightUnit) => {
+    const kg = targetWeight.ok ? targetWeight.kg : null;
+    if (kg !== null) setForm(prev => ({ ...prev, targetWeight: formatWeightValue(kg, unit) }));
+    setWeightUnit(unit);
+  };
+
+  const updateField = (field: keyof typeof form, value: string) => {
+    setMessage(null);
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    if (error || !effectiveFrom) return;
+    setRevisions(setGoalsFrom(revisions, effectiveFrom, goals));
+    setMessage(t('goalsSaved') as string);
+  };
+
+  const numberField = (field: keyof typeof form, label: string, step = '1') => (
+    <label>
+      {label}
+      <input type="number" min="0" step={step} className="form-input" value={form[field]} onChange={e => updateField(field, e.target.value)} />
+    </label>
+  );
+
+  return (
+    <div className="card goals-settings">
+      <h3 className="card-title">{t('goals')}</h3>
+      <p className="backup-description">{t('goalsDesc')}</p>
+      <div className="settings-fields">
+        <label>
+          {t('effectiveFrom')}
+          <input type="date" className="form-input" value={effectiveFrom} onChange={e => setEffectiveFrom(e.target.value)} />
+        </label>
+        {numberField('calories', t('calorieBudget') as string, '50')}
+        {numberField('waterMl', t('waterGoal') as string, '100')}
+        {numberField('sleepHours', t('sleepGoal') as string, '0.5')}
+        {numberField('targetWeight', (t('targetWeight') as string).replace('{unit}', weightUnit), '0.1')}
+        <label>
+          {t('weightUnit')}
+          <select className="form-input" value={weightUnit} onChange={e => handleUnitChange(e.target.value as WeightUnit)}>
+            {WEIGHT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="form-group">
+        <label>{t('macroSplit')}</label>
+        <div className="settings-fields">
+          {numberField('protein', t('protein') as string)}
+          {numberField('carbs', t('carbs') as string)}
+          {numberField('fat', t('fat') as string)}
+        </div>
+      </div>
+      {error && <p className="backup-message error">{error}</p>}
+      {message && <p className="backup-message success">{message}</p>}
+      <div className="backup-actions">
+        <button className="control-button" onClick={handleSave} disabled={!!error || !effectiveFrom}>{t('saveGoals')}</button>
+      </div>
+
+      {revisions.length > 0 && (
+        <>
+          <h4>{t('goalHistory')}</h4>
+          <ul className="trash-list">
+            {[...revisions].reverse().map(revision => (
+              <li key={revision.effectiveFrom} className="trash-item">
+                <div>
+                  <strong>{(t('goalsFrom') as string).replace('{date}', revision.effectiveFrom)}</strong>
+                  <div className="trash-item-meta">
+                    {revision.goals.calories} kcal · {revision.goals.macroSplit.protein}/{revision.goals.macroSplit.carbs}/{revision.goals.macroSplit.fat}%
+                    {' · '}{revision.goals.waterMl} ml · {revision.goals.sleepHours} h
+                    {revision.goals.targetWeight !== null && ` · ${formatWeight(revision.goals.targetWeight, weightUnit)}`}
+                  </div>
+                </div>
+                <button className="date-navigator-btn" onClick={() => setRevisions(revisions.filter(other => other !== revision))}>{t('remove')}</button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+
+const getProfileName = (profile: Profile, t: (key: keyof (typeof translations)['en']) => string | string[]) =>
+  profile.name || (t('defaultProfileName') as string);
+
+const ProfileSwitcher: React.FC<{
+  profile: Profile;
+  profiles: Profile[];
+  onSwitch: (id: string) => void;
   t: (key: keyof (typeof translations)['en']) => string | string[];
-}> = ({ chartData, t }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
-  const [tooltip, setTooltip] = useState<{ x: number; y: number; date: string; weight: number; } | null>(null);
+}> = ({ profile, profiles, onSwitch, t }) => (
+  <label className="profile-switcher">
+    <span className="profile-dot" style={{ backgroundColor: profile.color }} />
+    <select className="form-input" value={profile.id} onChange={e => onSwitch(e.target.value)} aria-label={t('switchProfile') as string}>
+      {profiles.map(option => (
+        <option key={option.id} value={option.id}>{getProfileName(option, t)}{option.pin ? ' 🔒' : ''}</option>
+      ))}
+    </select>
+  </label>
+);
 
-  const SVG_WIDTH = 600;
-  const SVG_HEIGHT = 400;
-  const PADDING = { top: 20, right: 30, bottom: 60, left: 50 };
+// Asks for the profile's PIN, or for the passphrase its diary is encrypted with. `onUnlock` resolves to false when the
+// attempt was wrong.
+const ProfileLock: React.FC<{
+  profile: Profile;
+  profiles: Profile[];
+  mode: 'pin' | 'passphrase';
+  onUnlock: (attempt: string) => Promise<boolean>;
+  onSwitch: (id: string) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ profile, profiles, mode, onUnlock, onSwitch, t }) => {
+  const [attempt, setAttempt] = useState('');
+  const [error, setError] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const isPin = mode === 'pin';
 
-  const weightValues = chartData.map(d => d.weight);
-  const minWeight = Math.min(...weightValues);
-  const maxWeight = Math.max(...weightValues);
-  
-  const dateValues = chartData.map(d => new Date(d.date).getTime());
-  const minDate = Math.min(...dateValues);
-  const maxDate = Math.max(...dateValues);
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    if (!await onUnlock(attempt)) {
+      setError(true);
+      setAttempt('');
+      setChecking(false);
+    }
+  };
 
-  const yTicks = useMemo(() => {
-    const domain = maxWeight - minWeight;
-    if (domain === 0) return [minWeight];
-    const tickCount = 5;
-    const step = (maxWeight - minWeight) / (tickCount - 1);
-    return Array.from({length: tickCount}, (_, i) => parseFloat((minWeight + (i * step)).toFixed(1)));
-  }, [minWeight, maxWeight]);
-  
-  const xTicks = useMemo(() => {
-    const domain = maxDate - minDate;
-    if (domain === 0) return [new Date(minDate)];
-    const tickCount = Math.min(7, chartData.length);
-    const step = domain / (tickCount -1);
-    return Array.from({length: tickCount}, (_, i) => new Date(minDate + (i * step)));
-  }, [minDate, maxDate, chartData.length]);
+  return (
+    <div className="app-container">
+      <form className="card profile-lock" onSubmit={handleSubmit}>
+        <span className="profile-dot large" style={{ backgroundColor: profile.color }} />
+        <h3 className="card-title">
+          {(t(isPin ? 'profileLocked' : 'diaryEncrypted') as string).replace('{name}', getProfileName(profile, t))}
+        </h3>
+        <input
+          type="password"
+          inputMode={isPin ? 'numeric' : undefined}
+          autoComplete={isPin ? 'off' : 'current-password'}
+          className="form-input"
+          value={attempt}
+          onChange={e => setAttempt(e.target.value)}
+          placeholder={t(isPin ? 'enterPin' : 'passphrase') as string}
+          aria-label={t(isPin ? 'enterPin' : 'passphrase') as string}
+          autoFocus
+        />
+        {error && <p className="backup-message error">{t(isPin ? 'wrongPin' : 'wrongPassphrase')}</p>}
+        <div className="backup-actions">
+          <button type="submit" className="control-button" disabled={!attempt || checking}>{t(checking ? 'unlocking' : 'unlock')}</button>
+        </div>
+        {profiles.length > 1 && <ProfileSwitcher profile={profile} profiles={profiles} onSwitch={onSwitch} t={t} />}
+      </form>
+    </div>
+  );
+};
 
-  const getCoords = (dateStr: string, weight: number) => {
-    const date = new Date(dateStr).getTime();
-    const x = PADDING.left + ((date - minDate) / (maxDate - minDate)) * (SVG_WIDTH - PADDING.left - PADDING.right);
-    const y = PADDING.top + ((maxWeight - weight) / (maxWeight - minWeight)) * (SVG_HEIGHT - PADDING.top - PADDING.bottom);
-    return { x, y };
-  };
+// Not a <label>: clicking anywhere in a label would press its first swatch.
+const ColorPicker: React.FC<{
+  label: string;
+  value: string;
+  onChange: (color: string) => void;
+}> = ({ label, value, onChange }) => (
+  <div className="color-picker" role="group" aria-label={label}>
+    <span>{label}</span>
+    <div className="color-swatches">
+      {PROFILE_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          className={`color-swatch ${color === value ? 'selected' : ''}`}
+          style={{ backgroundColor: color }}
+          onClick={() => onChange(color)}
+          aria-label={color}
+          aria-pressed={color === value}
+        />
+      ))}
+    </div>
+  </div>
+);
 
-  const linePath = chartData.map(d => {
-    const { x, y } = getCoords(d.date, d.weight);
-    return `${x},${y}`;
-  }).join(' ');
+const ProfilesSettings: React.FC<{
+  profile: Profile;
+  profiles: Profile[];
+  setProfiles: (profiles: Profile[]) => void;
+  onDelete: (id: string) => void;
+  lang: Language;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ profile, profiles, setProfiles, onDelete, lang, t }) => {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(PROFILE_COLORS[1]);
+  const [newLang, setNewLang] = useState<Language>(lang);
+  const [pin, setPin] = useState('');
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
 
-  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
-    if (!svgRef.current) return;
-    const svgPoint = svgRef.current.createSVGPoint();
-    svgPoint.x = e.clientX;
-    svgPoint.y = e.clientY;
-    
-    const inverted = svgPoint.matrixTransform(svgRef.current.getScreenCTM()?.inverse());
-    
-    let closestPoint = null;
-    let minDistance = Infinity;
+  const updateProfile = (changes: Partial<Profile>) =>
+    setProfiles(profiles.map(other => other.id === profile.id ? { ...other, ...changes } : other));
 
-    chartData.forEach(d => {
-        const {x, y} = getCoords(d.date, d.weight);
-        const distance = Math.sqrt(Math.pow(inverted.x - x, 2) + Math.pow(inverted.y - y, 2));
-        if (distance < minDistance) {
-            minDistance = distance;
-            closestPoint = {x, y, date: d.date, weight: d.weight};
-        }
-    });
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    const created = createProfile(newName.trim(), newColor);
+    try {
+      window.localStorage.setItem(scopeStorageKey('foodDiary_lang', created.id), JSON.stringify(newLang));
+    } catch (error) {
+      console.error(error);
+    }
+    setProfiles([...profiles, created]);
+    setNewName('');
+  };
 
-    if (closestPoint && minDistance < 30) {
-        setTooltip(closestPoint);
-    } else {
-        setTooltip(null);
+  const handleSetPin = async () => {
+    if (!PIN_PATTERN.test(pin)) {
+      setPinMessage(t('pinInvalid') as string);
+      return;
     }
+    updateProfile({ pin: await createPin(pin) });
+    setPin('');
+    setPinMessage(t('pinSaved') as string);
+  };
+
+  const handleRemovePin = () => {
+    updateProfile({ pin: null });
+    setPinMessage(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm((t('confirmDeleteProfile') as string).replace('{name}', getProfileName(profile, t)))) onDelete(profile.id);
   };
 
   return (
-    <div className="weight-chart-container">
-        <h4>{t('weightTrend')}</h4>
-        <div className="chart-wrapper">
-             <svg ref={svgRef} viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} onMouseMove={handleMouseMove} onMouseLeave={() => setTooltip(null)}>
-                {/* Axes and Grid lines */}
-                <g className="chart-grid">
-                    {yTicks.map(tick => {
-                        const { y } = getCoords(chartData[0].date, tick);
-                        return <line key={tick} className="chart-grid-line" x1={PADDING.left} x2={SVG_WIDTH - PADDING.right} y1={y} y2={y} />;
-                    })}
-                </g>
-                <g className="chart-axes">
-                    <line className="chart-axis-line" x1={PADDING.left} y1={SVG_HEIGHT - PADDING.bottom} x2={SVG_WIDTH - PADDING.right} y2={SVG_HEIGHT - PADDING.bottom} />
-                    <line className="chart-axis-line" x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={SVG_HEIGHT - PADDING.bottom} />
-                    
-                    {yTicks.map(tick => (
-                        <text key={`ytick-${tick}`} className="chart-axis-text" x={PADDING.left - 8} y={getCoords(chartData[0].date, tick).y + 3} textAnchor="end">{tick}</text>
-                    ))}
-                     <text className="chart-axis-label" transform={`translate(${PADDING.left/3}, ${SVG_HEIGHT/2}) rotate(-90)`}>{t('weightAxisLabel')}</text>
-                    
-                    {xTicks.map((tick, i) => (
-                         <text key={`xtick-${i}`} className="chart-axis-text" x={getCoords(tick.toISOString(), minWeight).x} y={SVG_HEIGHT - PADDING.bottom + 20} textAnchor="middle">
-                            {tick.toLocaleDateString(undefined, {month: 'short', day: 'numeric'})}
-                         </text>
-                    ))}
-                    <text className="chart-axis-label" x={SVG_WIDTH/2} y={SVG_HEIGHT - PADDING.bottom + 45}>{t('date')}</text>
-                </g>
+    <div className="card" style={{marginTop: '1.5rem'}}>
+      <h3 className="card-title">{t('profiles')}</h3>
+      <p className="backup-description">{t('profilesDesc')}</p>
+      <div className="settings-fields">
+        <label>
+          {t('profileName')}
+          <input className="form-input" value={profile.name} placeholder={t('defaultProfileName') as string} onChange={e => updateProfile({ name: e.target.value })} />
+        </label>
+        <ColorPicker label={t('profileColor') as string} value={profile.color} onChange={color => updateProfile({ color })} />
+        <label>
+          {profile.pin ? t('changePin') : t('setPin')}
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            className="form-input"
+            value={pin}
+            onChange={e => setPin(e.target.value)}
+            placeholder="••••"
+          />
+        </label>
+      </div>
+      {pinMessage && <p className="backup-message">{pinMessage}</p>}
+      <div className="backup-actions">
+        <button className="control-button" onClick={handleSetPin} disabled={!pin}>{profile.pin ? t('changePin') : t('setPin')}</button>
+        {profile.pin && <button className="date-navigator-btn" onClick={handleRemovePin}>{t('removePin')}</button>}
+        {profile.id !== DEFAULT_PROFILE_ID && <button className="date-navigator-btn" onClick={handleDelete}>{t('deleteProfile')}</button>}
+      </div>
 
-                {/* Data line */}
-                <polyline className="chart-line" points={linePath} />
-
-                {/* Data points */}
-                <g className="chart-points">
-                    {chartData.map(d => {
-                        const { x, y } = getCoords(d.date, d.weight);
-                        const isTooltipActive = tooltip?.date === d.date;
-                        return (
-                          <circle
-                            key={d.date}
-                            className="chart-point"
-                            cx={x}
-                            cy={y}
-                            r={isTooltipActive ? 7 : 4}
-                          />
-                        );
-                    })}
-                </g>
-                
-                {/* Tooltip */}
-                {tooltip && (
-                    <g transform={`translate(${tooltip.x}, ${tooltip.y})`}>
-                        <foreignObject x={-60} y={-65} width="120" height="50">
-                             <div className="chart-tooltip">
-                                <div className="tooltip-date">{new Date(tooltip.date + 'T00:00:00').toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric'})}</div>
-                                <div className="tooltip-weight">{tooltip.weight} kg</div>
-                            </div>
-                        </foreignObject>
-                    </g>
-                )}
-            </svg>
-        </div>
+      <ul className="trash-list">
+        {profiles.filter(other => other.id !== profile.id).map(other => (
+          <li key={other.id} className="trash-item">
+            <div>
+              <strong><span className="profile-dot" style={{ backgroundColor: other.color }} /> {getProfileName(other, t)}</strong>
+              {other.pin && <div className="trash-item-meta">{t('pinProtected')}</div>}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <h4>{t('addProfile')}</h4>
+      <div className="settings-fields">
+        <label>
+          {t('profileName')}
+          <input className="form-input" value={newName} onChange={e => setNewName(e.target.value)} />
+        </label>
+        <ColorPicker label={t('profileColor') as string} value={newColor} onChange={setNewColor} />
+        <label>
+          {t('profileLanguage')}
+          <select className="form-input" value={newLang} onChange={e => setNewLang(e.target.value as Language)}>
+            <option value="ko">한국어</option>
+            <option value="en">English</option>
+          </select>
+        </label>
+      </div>
+      <div className="backup-actions">
+        <button className="control-button" onClick={handleAdd} disabled={!newName.trim()}>{t('addProfile')}</button>
+      </div>
     </div>
   );
 };
 
-const AnalysisView: React.FC<{
-  data: AppData;
+const WEEK_START_KEYS = {
+  0: 'weekStartSunday',
+  1: 'weekStartMonday',
+} as const;
+
+const CalendarSettings: React.FC<{
+  weekStartDay: WeekStart;
+  setWeekStartDay: (weekStartDay: WeekStart) => void;
   t: (key: keyof (typeof translations)['en']) => string | string[];
-}> = ({ data, t }) => {
-    const chartData = useMemo(() => {
-        const dataPoints: { date: string; weight: number }[] = [];
-        const today = new Date();
-        for (let i = 29; i >= 0; i--) {
-            const d = new Date(today);
-            d.setDate(today.getDate() - i);
-            const dateString = d.toISOString().split('T')[0];
-            const dailyEntry = data.daily[dateString];
-            if (dailyEntry && dailyEntry.weight && !isNaN(parseFloat(dailyEntry.weight))) {
-                dataPoints.push({
-                    date: dateString,
-                    weight: parseFloat(dailyEntry.weight),
-                });
-            }
-        }
-        return dataPoints;
-    }, [data]);
+}> = ({ weekStartDay, setWeekStartDay, t }) => (
+  <div className="card" style={{marginTop: '1.5rem'}}>
+    <h3 className="card-title">{t('calendarSettings')}</h3>
+    <p className="backup-description">{t('weekStartsOnDesc')}</p>
+    <div className="settings-fields">
+      <label>
+        {t('weekStartsOn')}
+        <select className="form-input" value={weekStartDay} onChange={e => setWeekStartDay(Number(e.target.value) as WeekStart)}>
+          {WEEK_START_OPTIONS.map(option => <option key={option} value={option}>{t(WEEK_START_KEYS[option])}</option>)}
+        </select>
+      </label>
+    </div>
+  </div>
+);
 
-    if (chartData.length < 2) {
-        return (
-            <div className="card analysis-view">
-                <p>{t('notEnoughData')}</p>
-            </div>
-        );
+// Turning encryption on, changing the passphrase and turning it off. Changing or removing it asks for the current
+// passphrase, so an unlocked diary left open can't be taken over.
+const DiaryEncryption: React.FC<{
+  encrypted: boolean;
+  onEnable: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, passphrase: string) => Promise<boolean>;
+  onDisable: (current: string) => Promise<boolean>;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ encrypted, onEnable, onChangePassphrase, onDisable, t }) => {
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const passphraseError = passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? (t('passphraseTooShort') as string).replace('{count}', String(MIN_PASSPHRASE_LENGTH))
+    : passphrase !== confirm ? t('passphraseMismatch') as string
+    : null;
+
+  const run = async (action: () => Promise<boolean>, success: keyof (typeof translations)['en']) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      if (await action()) {
+        setMessage({ type: 'success', text: t(success) as string });
+        setCurrent('');
+        setPassphrase('');
+        setConfirm('');
+      } else {
+        setMessage({ type: 'error', text: t('wrongPassphrase') as string });
+        setCurrent('');
+      }
+    } catch (error) {
+      console.error(error);
+      setMessage({ type: 'error', text: t('encryptionFailed') as string });
     }
+    setBusy(false);
+  };
 
-    return (
-        <div className="analysis-view">
-            <WeightChart chartData={chartData} t={t} />
-        </div>
-    );
+  const handleEnable = () => run(async () => {
+    await onEnable(passphrase);
+    return true;
+  }, 'encryptionOn');
+
+  const handleDisable = () => {
+    if (!window.confirm(t('confirmDisableEncryption') as string)) return;
+    run(() => onDisable(current), 'encryptionOff');
+  };
+
+  const newPassphraseFields = (
+    <>
+      <label>
+        {t(encrypted ? 'newPassphrase' : 'passphrase')}
+        <input type="password" className="form-input" autoComplete="new-password" value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+      </label>
+      <label>
+        {t('confirmPassphrase')}
+        <input type="password" className="form-input" autoComplete="new-password" value={confirm} onChange={e => setConfirm(e.target.value)} />
+      </label>
+    </>
+  );
+
+  return (
+    <div className="card" style={{marginTop: '1.5rem'}}>
+      <h3 className="card-title">{t('encryption')}</h3>
+      <p className="backup-description">{t(encrypted ? 'encryptionOnDesc' : 'encryptionDesc')}</p>
+      {message && <p className={`backup-message ${message.type}`}>{message.text}</p>}
+      <div className="settings-fields">
+        {encrypted && (
+          <label>
+            {t('currentPassphrase')}
+            <input type="password" className="form-input" autoComplete="current-password" value={current} onChange={e => setCurrent(e.target.value)} />
+          </label>
+        )}
+        {newPassphraseFields}
+      </div>
+      {passphrase && passphraseError && <p className="backup-message error">{passphraseError}</p>}
+      <div className="backup-actions">
+        {encrypted ? (
+          <>
+            <button
+              className="control-button"
+              disabled={busy || !current || passphraseError !== null}
+              onClick={() => run(() => onChangePassphrase(current, passphrase), 'passphraseChanged')}
+            >
+              {t('changePassphrase')}
+            </button>
+            <button className="date-navigator-btn" disabled={busy || !current} onClick={handleDisable}>{t('turnOffEncryption')}</button>
+          </>
+        ) : (
+          <button className="control-button" disabled={busy || passphraseError !== null} onClick={handleEnable}>{t('turnOnEncryption')}</button>
+        )}
+      </div>
+    </div>
+  );
 };
 
-const CalendarView: React.FC<{
-  dailyData: Record<string, DailyLogData>;
-  onDateSelect: (date: string) => void;
+const DeviceSyncSettings: React.FC<{
+  settings: SyncSettings;
+  status: SyncStatus;
+  onEnable: (fields: SyncServerFields) => void;
+  onDisable: () => void;
+  onSyncNow: () => void;
+  lang: Language;
   t: (key: keyof (typeof translations)['en']) => string | string[];
-}> = ({ dailyData, onDateSelect, t }) => {
-  const [currentDate, setCurrentDate] = useState(new Date());
+}> = ({ settings, status, onEnable, onDisable, onSyncNow, lang, t }) => {
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [diaryId, setDiaryId] = useState(settings.diaryId);
+  const [token, setToken] = useState(settings.token);
+  const canEnable = serverUrl.trim() !== '' && diaryId.trim() !== '';
 
-  const handlePrevMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
-  };
+  const statusText = status.error === 'offline' ? t('syncOffline')
+    : status.error === 'unauthorized' ? t('syncUnauthorized')
+    : status.error === 'failed' ? t('syncFailed')
+    : status.lastSyncedAt ? (t('syncedAt') as string).replace('{time}', new Date(status.lastSyncedAt).toLocaleString(lang))
+    : t('syncNever');
 
-  const handleNextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
-  };
+  return (
+    <div className="card" style={{marginTop: '1.5rem'}}>
+      <h3 className="card-title">{t('sync')}</h3>
+      <p className="backup-description">{t('syncDesc')}</p>
+      <div className="settings-fields">
+        <label>
+          {t('syncServer')}
+          <input
+            type="url"
+            className="form-input"
+            value={serverUrl}
+            placeholder="http://localhost:8787"
+            disabled={settings.enabled}
+            onChange={e => setServerUrl(e.target.value)}
+          />
+        </label>
+        <label>
+          {t('syncDiary')}
+          <input type="text" className="form-input" value={diaryId} disabled={settings.enabled} onChange={e => setDiaryId(e.target.value)} />
+        </label>
+        <label>
+          {t('syncToken')}
+          <input type="password" className="form-input" value={token} disabled={settings.enabled} onChange={e => setToken(e.target.value)} />
+        </label>
+      </div>
+      {settings.enabled && (
+        <>
+          <p className={`backup-message ${status.error ? 'error' : 'success'}`}>{statusText}</p>
+          {status.pending > 0 && (
+            <p className="backup-description">{(t('syncPending') as string).replace('{count}', String(status.pending))}</p>
+          )}
+        </>
+      )}
+      <div className="backup-actions">
+        {settings.enabled ? (
+          <>
+            <button className="control-button" onClick={onSyncNow} disabled={status.syncing}>
+              {t(status.syncing ? 'syncing' : 'syncNow')}
+            </button>
+            <button className="date-navigator-btn" onClick={onDisable}>{t('turnOffSync')}</button>
+          </>
+        ) : (
+          <button
+            className="control-button"
+            disabled={!canEnable}
+            onClick={() => onEnable({ serverUrl: serverUrl.trim(), diaryId: diaryId.trim(), token: token.trim() })}
+          >
+            {t('turnOnSync')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
 
-  const weeks = useMemo(() => {
-    const year = currentDate.getFullYear();
-    const month = currentDate.getMonth();
-    const firstDayOfMonth = new Date(year, month, 1);
-    const firstDayOfWeek = firstDayOfMonth.getDay(); // 0=Sun
-    const calendarStartDate = new Date(firstDayOfMonth);
-    calendarStartDate.setDate(calendarStartDate.getDate() - firstDayOfWeek);
+const MealSlotsSettings: React.FC<{
+  slots: MealSlot[];
+  setSlots: (slots: MealSlot[]) => void;
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ slots, setSlots, t }) => {
+  const [newName, setNewName] = useState('');
+  const [newTime, setNewTime] = useState('21:00');
 
-    const generatedWeeks: Date[][] = [];
-    for (let i = 0; i < 6; i++) {
-      const week: Date[] = [];
-      for (let j = 0; j < 7; j++) {
-        const day = new Date(calendarStartDate);
-        week.push(day);
-        calendarStartDate.setDate(calendarStartDate.getDate() + 1);
-      }
-      generatedWeeks.push(week);
-    }
-    return generatedWeeks;
-  }, [currentDate]);
-  
-  const today = new Date();
-  const todayString = today.toISOString().split('T')[0];
-  const lang = t('langToggle') === 'EN' ? 'ko-KR' : 'en-US';
+  const updateSlot = (id: MealType, changes: Partial<MealSlot>) =>
+    setSlots(slots.map(slot => slot.id === id ? { ...slot, ...changes } : slot));
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    setSlots([...slots, createMealSlot(newName.trim(), newTime)]);
+    setNewName('');
+  };
 
   return (
-    <div className="card calendar-view">
-      <div className="calendar-header">
-        <button onClick={handlePrevMonth} className="calendar-nav-btn" aria-label="Previous month">&lt;</button>
-        <h3>{currentDate.toLocaleString(lang, { year: 'numeric', month: 'long' })}</h3>
-        <button onClick={handleNextMonth} className="calendar-nav-btn" aria-label="Next month">&gt;</button>
+    <div className="card meal-slots-settings" style={{marginTop: '1.5rem'}}>
+      <h3 className="card-title">{t('mealSlots')}</h3>
+      <p className="backup-description">{t('mealSlotsDesc')}</p>
+      <ul className="trash-list">
+        {slots.map((slot, index) => (
+          <li key={slot.id} className={`trash-item meal-slot-item${slot.hidden ? ' hidden-slot' : ''}`}>
+            <div className="meal-slot-fields">
+              <input
+                type="text"
+                className="form-input"
+                value={slot.name}
+                placeholder={isBuiltInMealType(slot.id) ? t(slot.id) as string : ''}
+                onChange={e => updateSlot(slot.id, { name: e.target.value })}
+                aria-label={t('slotName') as string}
+              />
+              <input
+                type="time"
+                className="form-input meal-time-input"
+                value={slot.defaultTime}
+                onChange={e => updateSlot(slot.id, { defaultTime: e.target.value })}
+                aria-label={t('defaultTime') as string}
+              />
+            </div>
+            <div className="meal-slot-actions">
+              <button className="date-navigator-btn" onClick={() => setSlots(moveSlot(slots, slot.id, -1))} disabled={index === 0} aria-label={t('moveUp') as string}>↑</button>
+              <button className="date-navigator-btn" onClick={() => setSlots(moveSlot(slots, slot.id, 1))} disabled={index === slots.length - 1} aria-label={t('moveDown') as string}>↓</button>
+              <button className="date-navigator-btn" onClick={() => updateSlot(slot.id, { hidden: !slot.hidden })}>
+                {slot.hidden ? t('showSlot') : t('hideSlot')}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="settings-fields">
+        <label>
+          {t('slotName')}
+          <input type="text" className="form-input" value={newName} onChange={e => setNewName(e.target.value)} />
+        </label>
+        <label>
+          {t('defaultTime')}
+          <input type="time" className="form-input" value={newTime} onChange={e => setNewTime(e.target.value)} />
+        </label>
       </div>
-      <table className="calendar-grid">
-        <thead>
-          <tr>
-            {(t('dayNames') as string[]).map(day => <th key={day}>{day}</th>)}
-          </tr>
-        </thead>
-        <tbody>
-          {weeks.map((week, i) => (
-            <tr key={i}>
-              {week.map((day, j) => {
-                const dateString = day.toISOString().split('T')[0];
-                const isCurrentMonth = day.getMonth() === currentDate.getMonth();
-                const isToday = dateString === todayString;
-                const hasLog = !!dailyData[dateString];
+      <div className="backup-actions">
+        <button className="control-button" onClick={handleAdd} disabled={!newName.trim()}>{t('addSlot')}</button>
+        <button className="date-navigator-btn" onClick={() => setSlots(BUILT_IN_MEAL_SLOTS)}>{t('resetSlots')}</button>
+      </div>
+    </div>
+  );
+};
 
-                const cellClasses = [
-                  'calendar-day-cell',
-                  isCurrentMonth ? '' : 'other-month',
-                  isToday ? 'is-today' : ''
-                ].join(' ').trim();
+const RemindersSettings: React.FC<{
+  settings: ReminderSettings;
+  setSettings: (settings: ReminderSettings) => void;
+  mealSlots: MealSlot[];
+  t: (key: keyof (typeof translations)['en']) => string | string[];
+}> = ({ settings, setSettings, mealSlots, t }) => {
+  const [permission, setPermission] = useState(getNotificationPermission);
+  const visibleSlots = getVisibleSlots(mealSlots);
 
-                return (
-                  <td key={j} className={cellClasses} onClick={() => onDateSelect(dateString)}>
-                    <div className='calendar-day-content'>
-                        <span className="day-number">{day.getDate()}</span>
-                        {hasLog && <div className="log-indicator"></div>}
-                    </div>
-                  </td>
-                );
-              })}
-            </tr>
-          ))}
-        </tbody>
-      </table>
+  const handleToggle = async (enabled: boolean) => {
+    if (enabled && permission === 'default') {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    setSettings({ ...settings, enabled });
+  };
+
+  const updateMeal = (id: MealType, changes: Partial<MealReminder>) =>
+    setSettings({ ...settings, meals: { ...settings.meals, [id]: { ...getMealReminder(settings, id), ...changes } } });
+
+  const handleTest = () => {
+    showNotification(t('reminders') as string, { body: t('reminderTestBody') as string }).catch(error => console.error(error));
+  };
+
+  const active = settings.enabled && permission === 'granted';
+
+  return (
+    <div className="card reminders-settings" style={{marginTop: '1.5rem'}}>
+      <h3 className="card-title">{t('reminders')}</h3>
+      <p className="backup-description">{t('remindersDesc')}</p>
+      {permission === 'unsupported' && <p className="backup-message error">{t('remindersUnsupported')}</p>}
+      {permission === 'denied' && <p className="backup-message error">{t('remindersDenied')}</p>}
+      <label className="reminder-toggle">
+        <input
+          type="checkbox"
+          checked={active}
+          disabled={permission === 'unsupported' || permission === 'denied'}
+          onChange={e => handleToggle(e.target.checked)}
+        />
+        {t('enableReminders')}
+      </label>
+      {active && (
+        <>
+          <h4>{t('mealReminders')}</h4>
+          <ul className="trash-list">
+            {visibleSlots.map(slot => {
+              const reminder = getMealReminder(settings, slot.id);
+              return (
+                <li key={slot.id} className="trash-item">
+                  <label className="reminder-toggle">
+                    <input type="checkbox" checked={reminder.enabled} onChange={e => updateMeal(slot.id, { enabled: e.target.checked })} />
+                    {getMealSlotLabel(mealSlots, slot.id, t)}
+                  </label>
+                  <label className="reminder-offset">
+                    <input
+                      type="number"
+                      className="form-input"
+                      step={5}
+                      value={reminder.offsetMinutes}
+                      disabled={!reminder.enabled}
+                      onChange={e => updateMeal(slot.id, { offsetMinutes: Math.round(Number(e.target.value) || 0) })}
+                    />
+                    {(t('minutesAfter') as string).replace('{time}', slot.defaultTime)}
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+          <h4>{t('waterReminders')}</h4>
+          <div className="settings-fields">
+            <label className="reminder-toggle">
+              <input
+                type="checkbox"
+                checked={settings.water.enabled}
+                onChange={e => setSettings({ ...settings, water: { ...settings.water, enabled: e.target.checked } })}
+              />
+              {t('waterReminderNudge')}
+            </label>
+            <label>
+              {t('waterReminderEvery')}
+              <select
+                className="form-input"
+                value={settings.water.intervalMinutes}
+                disabled={!settings.water.enabled}
+                onChange={e => setSettings({ ...settings, water: { ...settings.water, intervalMinutes: Number(e.target.value) } })}
+              >
+                {WATER_INTERVAL_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{(t('minutesOption') as string).replace('{minutes}', String(minutes))}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('reminderFrom')}
+              <input
+                type="time"
+                className="form-input"
+                value={settings.water.from}
+                disabled={!settings.water.enabled}
+                onChange={e => setSettings({ ...settings, water: { ...settings.water, from: e.target.value } })}
+              />
+            </label>
+            <label>
+              {t('reminderUntil')}
+              <input
+                type="time"
+                className="form-input"
+                value={settings.water.to}
+                disabled={!settings.water.enabled}
+                onChange={e => setSettings({ ...settings, water: { ...settings.water, to: e.target.value } })}
+              />
+            </label>
+          </div>
+          <h4>{t('weighInReminder')}</h4>
+          <div className="settings-fields">
+            <label className="reminder-toggle">
+              <input
+                type="checkbox"
+                checked={settings.weighIn.enabled}
+                onChange={e => setSettings({ ...settings, weighIn: { ...settings.weighIn, enabled: e.target.checked } })}
+              />
+              {t('weighInReminderDesc')}
+            </label>
+            <label>
+              {t('reminderTime')}
+              <input
+                type="time"
+                className="form-input"
+                value={settings.weighIn.time}
+                disabled={!settings.weighIn.enabled}
+                onChange={e => setSettings({ ...settings, weighIn: { ...settings.weighIn, time: e.target.value } })}
+              />
+            </label>
+          </div>
+          <div className="backup-actions">
+            <button className="date-navigator-btn" onClick={handleTest}>{t('testReminder')}</button>
+          </div>
+        </>
+      )}
     </div>
   );
 };
 
-
-const App = () => {
-  const [lang, setLang] = useLocalStorage<Language>('foodDiary_lang', 'ko');
+// One profile's diary; Root remounts it with a new key when the profile changes so every setting below is re-read.
+const App: React.FC<{
+  profile: Profile;
+  profiles: Profile[];
+  setProfiles: (profiles: Profile[]) => void;
+  onSwitchProfile: (id: string) => void;
+  onDeleteProfile: (id: string) => void;
+  // Only read when the diary loads; changes made here are reported back through onEncryptionChange.
+  encryptionKeys: EncryptionKeys | null;
+  onEncryptionChange: (keys: EncryptionKeys | null) => void;
+}> = ({ profile, profiles, setProfiles, onSwitchProfile, onDeleteProfile, encryptionKeys, onEncryptionChange }) => {
+  const profileKey = (key: string) => scopeStorageKey(key, profile.id);
+  const [lang, setLang] = useLocalStorage<Language>(profileKey('foodDiary_lang'), 'ko');
   const [view, setView] = useState<View>('daily');
-  const [data, setData] = useLocalStorage<AppData>('foodDiary_data', { daily: {}, weekly: {} });
+  const {
+    data, setData: setPersistentData, loadResult, saveFailed, retrySave, getSaved, applyRemoteEntries, rewriteAll,
+  } = usePersistentAppData(profile.id, encryptionKeys);
+  const [encrypted, setEncrypted] = useState(() => isProfileEncrypted(profile.id));
+  const sync = useSync(profile.id, data, loadResult, retrySave, getSaved, applyRemoteEntries);
+  const { trash, setTrash, loaded: trashLoaded, rewrite: rewriteTrash } = useTrash(profile.id, encryptionKeys);
+  const trashSetAsideRef = useRef<DeletedEntry[]>([]);
+  const { setData, undo, redo, canUndo, canRedo } = useUndoHistory(data, setPersistentData, (previous, next) => {
+    const step = applyHistoryStep(trash, trashSetAsideRef.current, previous, next);
+    trashSetAsideRef.current = step.setAside;
+    if (step.trash.length !== trash.length) setTrash(step.trash);
+  });
+  const [trashRetentionDays, setTrashRetentionDays] = useLocalStorage<number>(profileKey('foodDiary_trashRetentionDays'), DEFAULT_TRASH_RETENTION_DAYS);
+  const [customFoods, setCustomFoods] = useLocalStorage<Food[]>(profileKey('foodDiary_customFoods'), []);
+  const foods = useMemo(() => [...BUILT_IN_FOODS, ...customFoods], [customFoods]);
+  const [goalRevisions, setGoalRevisions] = useLocalStorage<GoalsRevision[]>(profileKey('foodDiary_goals'), []);
+  const [mealSlots, setMealSlots] = useLocalStorage<MealSlot[]>(profileKey('foodDiary_mealSlots'), BUILT_IN_MEAL_SLOTS);
+  const [recipes, setRecipes] = useLocalStorage<Recipe[]>(profileKey('foodDiary_recipes'), []);
+  const menuSource = useMemo(() => ({ recipes, pastMenus: getPastMenus(data.daily) }), [recipes, data.daily]);
+  const [shoppingLists, setShoppingLists] = useLocalStorage<Record<string, ShoppingListState>>(profileKey('foodDiary_shoppingLists'), {});
+  const [reminderSettings, setReminderSettings] = useLocalStorage<ReminderSettings>(profileKey('foodDiary_reminders'), DEFAULT_REMINDER_SETTINGS);
+  const [weightUnit, setWeightUnit] = useLocalStorage<WeightUnit>(profileKey('foodDiary_weightUnit'), 'kg');
+  const { updateReady, applyUpdate, canInstall, install } = useServiceWorker();
   const [selectedDate, setSelectedDate] = useState(getTodayDateString());
+  const [weekStartDay, setWeekStartDay] = useLocalStorage<WeekStart>(profileKey('foodDiary_weekStart'), DEFAULT_WEEK_START);
+  const [selectedWeekStart, setSelectedWeekStart] = useState(() => getWeekStartDate(getTodayDateString(), weekStartDay));
+  const [dateCheckDone, setDateCheckDone] = useLocalStorage<boolean>(profileKey('foodDiary_dateCheckDone'), false);
+  // When data saved with UTC dates was first loaded; unset when there was none.
+  const [localDatesSince, setLocalDatesSince] = useLocalStorage<number | null>(profileKey('foodDiary_localDatesSince'), null);
+  const misdatedEntries = useMemo(
+    () => loadResult && !dateCheckDone && localDatesSince !== null ? findMisdatedEntries(data.daily, localDatesSince) : [],
+    [loadResult, dateCheckDone, localDatesSince, data.daily]
+  );
 
   const t = useCallback((key: keyof (typeof translations)['en']) => {
     return translations[lang][key] || translations['en'][key];
   }, [lang]);
   
+  useReminders(reminderSettings, mealSlots, data.daily, Math.ceil(getGoalsForDate(goalRevisions, getTodayDateString()).waterMl / CUP_ML), profile.id, t);
+
   useEffect(() => {
     document.body.style.fontFamily = lang === 'ko' ? "var(--font-ko), var(--font-en)" : "var(--font-en), var(--font-ko)";
   }, [lang]);
 
+  useEffect(() => {
+    const remaining = purgeExpired(trash, trashRetentionDays);
+    if (remaining.length !== trash.length) setTrash(remaining);
+  }, [trash, trashRetentionDays]);
+
+  // Only data saved by earlier versions can be misdated. Its first load starts the check, which keeps running until a
+  // load finds nothing; new diaries and ones already saved with local dates skip it.
+  useEffect(() => {
+    if (!loadResult || loadResult.status === 'safeMode' || dateCheckDone) return;
+    if (localDatesSince !== null) {
+      if (misdatedEntries.length === 0) setDateCheckDone(true);
+    } else if (loadResult.storedVersion !== null && loadResult.storedVersion < LOCAL_DATES_SCHEMA_VERSION) {
+      setLocalDatesSince(Date.now());
+    } else {
+      setDateCheckDone(true);
+    }
+  }, [loadResult, localDatesSince]);
+
+  // Only after a clean load: in safe mode or after repairs the loaded data may not reference every photo it should.
+  // Photos of deleted entries are kept too, so the trash has to be read first.
+  useEffect(() => {
+    if (loadResult?.status !== 'ok' && loadResult?.status !== 'empty') return;
+    if (!trashLoaded || !isPhotoStorageAvailable()) return;
+    prunePhotos(getReferencedPhotoIds(data, trash)).catch(error => console.error(error));
+  }, [loadResult, trashLoaded]);
+
   const toggleLang = () => {
     setLang(lang === 'ko' ? 'en' : 'ko');
   };
@@ -695,23 +5074,110 @@ const App = () => {
   const handleReset = () => {
       if(window.confirm(t('confirmReset') as string)){
           if(view === 'daily'){
+              const deleted = createDeletedEntry(data, 'daily', selectedDate);
+              if (deleted) setTrash([deleted, ...trash]);
               setData(prev => {
                   const newDaily = {...prev.daily};
                   delete newDaily[selectedDate];
                   return {...prev, daily: newDaily};
               });
           } else if (view === 'weekly') {
-              const weekStart = getWeekStartDate(new Date());
+              const deleted = createDeletedEntry(data, 'weekly', selectedWeekStart);
+              if (deleted) setTrash([deleted, ...trash]);
               setData(prev => {
                   const newWeekly = {...prev.weekly};
-                  delete newWeekly[weekStart];
+                  delete newWeekly[selectedWeekStart];
                   return {...prev, weekly: newWeekly};
               });
           }
       }
   };
   
-  const handleDateSelectFromCalendar = (date: string) => {
+  const handleWeekStartChange = (value: WeekStart) => {
+    setWeekStartDay(value);
+    setData(prev => ({ ...prev, weekly: regroupWeeklyPlans(prev.weekly, value) }));
+    setShoppingLists(regroupShoppingLists(shoppingLists, value));
+    setSelectedWeekStart(getOverlappingWeekStart(selectedWeekStart, value));
+  };
+
+  const handleMoveMisdated = () => {
+    setData(prev => moveMisdatedEntries(prev, misdatedEntries));
+    setDateCheckDone(true);
+  };
+
+  // Unsaved edits are written before the diary is unmounted. If that fails the profile stays open, showing the
+  // save-failed notice, so the edits aren't lost.
+  const handleSwitchProfile = (id: string) => {
+    retrySave().then(saved => {
+      if (saved) onSwitchProfile(id);
+    });
+  };
+
+  const handleReloadToUpdate = () => {
+    retrySave().then(saved => {
+      if (saved) applyUpdate();
+    });
+  };
+
+  // Encryption changed in another tab: the keys this tab writes with are out of date.
+  useEffect(() => {
+    const encryptionKey = profileKey(ENCRYPTION_KEY);
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === encryptionKey) window.location.reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // The new settings are saved before the diary is rewritten. Plain entries and entries under an older key are still
+  // read, so a rewrite that gets cut short leaves the diary readable with the new passphrase.
+  const handleEnableEncryption = async (passphrase: string) => {
+    const { keys, settings } = await setUpEncryption(passphrase);
+    window.localStorage.setItem(profileKey(ENCRYPTION_KEY), JSON.stringify(settings));
+    onEncryptionChange(keys);
+    setEncrypted(true);
+    await rewriteAll(keys);
+    await rewriteTrash(keys);
+    await rewritePhotos(null, keys);
+    clearRecoveryCopies(profileKey(STORAGE_KEY));
+  };
+
+  const handleChangePassphrase = async (current: string, passphrase: string) => {
+    const settings = readEncryptionSettings(profile.id);
+    const keys = settings && await unlockEncryption(settings, current);
+    if (!keys) return false;
+    const changed = await changePassphrase(keys, passphrase);
+    window.localStorage.setItem(profileKey(ENCRYPTION_KEY), JSON.stringify(changed.settings));
+    onEncryptionChange(changed.keys);
+    await rewriteAll(changed.keys);
+    const trashRewritten = await rewriteTrash(changed.keys);
+    await rewritePhotos(keys, changed.keys);
+    // Nothing needs the old keys once everything is rewritten, apart from recovery copies, which go with them.
+    if (trashRewritten) {
+      const pruned = await dropOldKeys(changed.keys, passphrase);
+      window.localStorage.setItem(profileKey(ENCRYPTION_KEY), JSON.stringify(pruned.settings));
+      onEncryptionChange(pruned.keys);
+      clearRecoveryCopies(profileKey(STORAGE_KEY));
+    }
+    return true;
+  };
+
+  // Here the diary is rewritten in plain text first, and the settings only go once nothing needs the keys.
+  const handleDisableEncryption = async (current: string) => {
+    const settings = readEncryptionSettings(profile.id);
+    const keys = settings && await unlockEncryption(settings, current);
+    if (!keys) return false;
+    await rewriteAll(null);
+    await rewriteTrash(null);
+    await rewritePhotos(keys, null);
+    clearRecoveryCopies(profileKey(STORAGE_KEY));
+    window.localStorage.removeItem(profileKey(ENCRYPTION_KEY));
+    onEncryptionChange(null);
+    setEncrypted(false);
+    return true;
+  };
+
+  const handleOpenDay = (date: string) => {
     setSelectedDate(date);
     setView('daily');
   };
@@ -720,23 +5186,145 @@ const App = () => {
     <div className="app-container">
       <header className="app-header">
         <h1>{t('title')}</h1>
+        {profiles.length > 1 && <ProfileSwitcher profile={profile} profiles={profiles} onSwitch={handleSwitchProfile} t={t} />}
         <div className="nav-controls">
           <div className="nav-tabs">
             <button className={`nav-button ${view === 'daily' ? 'active' : ''}`} onClick={() => setView('daily')}>{t('dailyLog')}</button>
             <button className={`nav-button ${view === 'weekly' ? 'active' : ''}`} onClick={() => setView('weekly')}>{t('weeklyPlan')}</button>
             <button className={`nav-button ${view === 'analysis' ? 'active' : ''}`} onClick={() => setView('analysis')}>{t('analysis')}</button>
             <button className={`nav-button ${view === 'calendar' ? 'active' : ''}`} onClick={() => setView('calendar')}>{t('calendar')}</button>
+            <button className={`nav-button ${view === 'recipes' ? 'active' : ''}`} onClick={() => setView('recipes')}>{t('recipes')}</button>
+            <button className={`nav-button ${view === 'search' ? 'active' : ''}`} onClick={() => setView('search')}>{t('search')}</button>
+          </div>
+          <div className="history-controls">
+            <button className="control-button" onClick={undo} disabled={!canUndo} title="Ctrl+Z" aria-label={t('undo') as string}>↶ {t('undo')}</button>
+            <button className="control-button" onClick={redo} disabled={!canRedo} title="Ctrl+Shift+Z" aria-label={t('redo') as string}>↷ {t('redo')}</button>
           </div>
-          <button className="control-button" onClick={handleReset} disabled={view === 'analysis' || view === 'calendar'}>{t('reset')}</button>
+          {canInstall && <button className="control-button" onClick={install}>{t('installApp')}</button>}
+          <button className="control-button" onClick={() => setView('settings')}>{t('settings')}</button>
+          <button className="control-button" onClick={() => setView('backup')}>{t('dataManagement')}</button>
+          <button className="control-button" onClick={handleReset} disabled={view !== 'daily' && view !== 'weekly'}>{t('reset')}</button>
           <button className="control-button" onClick={toggleLang}>{t('langToggle')}</button>
         </div>
       </header>
 
+      <StorageNotice loadResult={loadResult} saveFailed={saveFailed} onRetrySave={retrySave} t={t} />
+      {updateReady && <UpdateNotice onReload={handleReloadToUpdate} t={t} />}
+      {misdatedEntries.length > 0 && (
+        <DateCheckNotice entries={misdatedEntries} onMove={handleMoveMisdated} onKeep={() => setDateCheckDone(true)} t={t} />
+      )}
+
       <main>
-        {view === 'daily' && <DailyLog selectedDate={selectedDate} setSelectedDate={setSelectedDate} data={data} setData={setData} t={t} />}
-        {view === 'weekly' && <WeeklyPlanner data={data} setData={setData} t={t} />}
-        {view === 'analysis' && <AnalysisView data={data} t={t} />}
-        {view === 'calendar' && <CalendarView dailyData={data.daily} onDateSelect={handleDateSelectFromCalendar} t={t} />}
+        {!loadResult && <div className="card loading-card">{t('loading')}</div>}
+        {loadResult && view === 'daily' && (
+          <DailyLog
+            selectedDate={selectedDate}
+            setSelectedDate={setSelectedDate}
+            data={data}
+            setData={setData}
+            foods={foods}
+            onCreateFood={food => setCustomFoods([...customFoods, food])}
+            goals={getGoalsForDate(goalRevisions, selectedDate)}
+            mealSlots={mealSlots}
+            menuSource={menuSource}
+            weightUnit={weightUnit}
+            weekStartDay={weekStartDay}
+            lang={lang}
+            t={t}
+          />
+        )}
+        {loadResult && view === 'weekly' && (
+          <WeeklyPlanner
+            weekStart={selectedWeekStart}
+            setWeekStart={setSelectedWeekStart}
+            data={data}
+            setData={setData}
+            mealSlots={mealSlots}
+            menuSource={menuSource}
+            shoppingList={shoppingLists[selectedWeekStart] ?? EMPTY_SHOPPING_LIST}
+            setShoppingList={list => setShoppingLists({ ...shoppingLists, [selectedWeekStart]: list })}
+            weekStartDay={weekStartDay}
+            otherProfiles={profiles.filter(other => other.id !== profile.id && !isProfileEncrypted(other.id))}
+            t={t}
+          />
+        )}
+        {loadResult && view === 'analysis' && (
+          <AnalysisView
+            data={data}
+            mealSlots={mealSlots}
+            weightUnit={weightUnit}
+            targetWeight={getGoalsForDate(goalRevisions, getTodayDateString()).targetWeight}
+            t={t}
+          />
+        )}
+        {view === 'recipes' && <RecipeLibrary recipes={recipes} setRecipes={setRecipes} t={t} />}
+        {loadResult && view === 'search' && (
+          <SearchView
+            data={data}
+            mealSlots={mealSlots}
+            onOpenDay={handleOpenDay}
+            onOpenWeek={date => {
+              setSelectedWeekStart(getWeekStartDate(date, weekStartDay));
+              setView('weekly');
+            }}
+            t={t}
+          />
+        )}
+        {loadResult && view === 'calendar' && (
+          <CalendarView
+            dailyData={data.daily}
+            onDateSelect={handleOpenDay}
+            mealSlots={mealSlots}
+            goals={getGoalsForDate(goalRevisions, getTodayDateString())}
+            weightUnit={weightUnit}
+            weekStartDay={weekStartDay}
+            t={t}
+          />
+        )}
+        {view === 'settings' && (
+          <>
+            <GoalsSettings revisions={goalRevisions} setRevisions={setGoalRevisions} weightUnit={weightUnit} setWeightUnit={setWeightUnit} t={t} />
+            <ProfilesSettings profile={profile} profiles={profiles} setProfiles={setProfiles} onDelete={onDeleteProfile} lang={lang} t={t} />
+            {loadResult && <CalendarSettings weekStartDay={weekStartDay} setWeekStartDay={handleWeekStartChange} t={t} />}
+            {loadResult && loadResult.status !== 'safeMode' && (
+              <DiaryEncryption
+                encrypted={encrypted}
+                onEnable={handleEnableEncryption}
+                onChangePassphrase={handleChangePassphrase}
+                onDisable={handleDisableEncryption}
+                t={t}
+              />
+            )}
+            {loadResult && loadResult.status !== 'safeMode' && (
+              <DeviceSyncSettings
+                settings={sync.settings}
+                status={sync.status}
+                onEnable={sync.enable}
+                onDisable={sync.disable}
+                onSyncNow={sync.syncNow}
+                lang={lang}
+                t={t}
+              />
+            )}
+            <MealSlotsSettings slots={mealSlots} setSlots={setMealSlots} t={t} />
+            <RemindersSettings settings={reminderSettings} setSettings={setReminderSettings} mealSlots={mealSlots} t={t} />
+          </>
+        )}
+        {loadResult && view === 'backup' && (
+          <>
+            <BackupView data={data} setData={setData} mealSlots={mealSlots} weightUnit={weightUnit} encrypted={encrypted} t={t} />
+            <RecentlyDeleted
+              data={data}
+              setData={setData}
+              trash={trash}
+              setTrash={setTrash}
+              retentionDays={trashRetentionDays}
+              setRetentionDays={setTrashRetentionDays}
+              t={t}
+            />
+            <CustomFoodsManager customFoods={customFoods} setCustomFoods={setCustomFoods} t={t} />
+          </>
+        )}
       </main>
 
       <footer className="app-footer">
@@ -746,8 +5334,101 @@ const App = () => {
   );
 };
 
+// Picks the profile, asks for its PIN when it has one, and mounts its diary.
+const Root = () => {
+  const [profiles, setProfiles] = useLocalStorage<Profile[]>(PROFILES_KEY, [DEFAULT_PROFILE]);
+  const [activeId, setActiveId] = useLocalStorage<string>(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID);
+  const [unlocked, setUnlockedState] = useState<string[]>(() => readStoredValue(UNLOCKED_PROFILES_KEY, [], window.sessionStorage));
+  // Unlocked encryption keys by profile; memory only, so the passphrase is asked for again after a reload.
+  const [encryptionKeys, setEncryptionKeys] = useState<Record<string, EncryptionKeys>>({});
+  const profile = profiles.find(other => other.id === activeId) ?? profiles[0] ?? DEFAULT_PROFILE;
+
+  const setUnlocked = (ids: string[]) => {
+    setUnlockedState(ids);
+    try {
+      window.sessionStorage.setItem(UNLOCKED_PROFILES_KEY, JSON.stringify(ids));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const setProfileKeys = (id: string, keys: EncryptionKeys | null) => setEncryptionKeys(prev => {
+    const next = { ...prev };
+    delete next[id];
+    if (keys) next[id] = keys;
+    return next;
+  });
+
+  // Leaving a profile locks it again, so the next person on a shared device can't switch back into it.
+  const handleSwitch = (id: string) => {
+    setUnlocked(unlocked.filter(other => other !== profile.id));
+    setProfileKeys(profile.id, null);
+    setActiveId(id);
+  };
+
+  // Setting a PIN on the open profile shouldn't lock its owner out straight away.
+  const handleSetProfiles = (next: Profile[]) => {
+    if (next.find(other => other.id === profile.id)?.pin && !profile.pin) setUnlocked([...unlocked, profile.id]);
+    setProfiles(next);
+  };
+
+  const handleDelete = async (id: string) => {
+    setActiveId(DEFAULT_PROFILE_ID);
+    setProfiles(profiles.filter(other => other.id !== id));
+    setProfileKeys(id, null);
+    try {
+      Object.keys(window.localStorage).filter(key => isScopedToProfile(key, id)).forEach(key => window.localStorage.removeItem(key));
+      await deleteDatabase(scopeStorageKey(DB_NAME, id));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const lang = readStoredValue<Language>(scopeStorageKey('foodDiary_lang', profile.id), 'ko');
+  const t = (key: keyof (typeof translations)['en']) => translations[lang][key] || translations['en'][key];
+
+  if (profile.pin && !unlocked.includes(profile.id)) {
+    const pin = profile.pin;
+    const handleUnlock = async (attempt: string) => {
+      if (!await verifyPin(pin, attempt)) return false;
+      setUnlocked([...unlocked, profile.id]);
+      return true;
+    };
+    return <ProfileLock key={profile.id} profile={profile} profiles={profiles} mode="pin" onUnlock={handleUnlock} onSwitch={handleSwitch} t={t} />;
+  }
+
+  const encryption = readEncryptionSettings(profile.id);
+  if (encryption && !encryptionKeys[profile.id]) {
+    const handleUnlock = async (attempt: string) => {
+      const keys = await unlockEncryption(encryption, attempt);
+      if (!keys) return false;
+      setProfileKeys(profile.id, keys);
+      return true;
+    };
+    return (
+      <ProfileLock key={`${profile.id}-encryption`} profile={profile} profiles={profiles} mode="passphrase" onUnlock={handleUnlock} onSwitch={handleSwitch} t={t} />
+    );
+  }
+
+  // Photos are read from deep inside the tree, so the module is pointed at this profile's database and keys before it
+  // renders.
+  selectPhotoDatabase(scopeStorageKey(DB_NAME, profile.id), encryptionKeys[profile.id] ?? null);
+  return (
+    <App
+      key={profile.id}
+      profile={profile}
+      profiles={profiles}
+      setProfiles={handleSetProfiles}
+      onSwitchProfile={handleSwitch}
+      onDeleteProfile={handleDelete}
+      encryptionKeys={encryptionKeys[profile.id] ?? null}
+      onEncryptionChange={keys => setProfileKeys(profile.id, keys)}
+    />
+  );
+};
+
 const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
-  root.render(<App />);
+  root.render(<Root />);
 }
@@ -0,0 +1,120 @@
+import type { AppData, DailyLogData } from './types';
+import { getMetricValue, isDayLogged, isMealLogged, parseTimeToHours } from './analysis';
+import { addDays } from './dates';
+
+// Below these sample sizes or this effect size a finding is more likely noise than a pattern.
+export const MIN_GROUP_SIZE = 5;
+export const MIN_PAIRS = 10;
+export const MIN_STRENGTH = 0.3;
+
+export const GOOD_SLEEP_HOURS = 7;
+export const LATE_MEAL_HOUR = 21;
+
+export type InsightId = 'sleepEnergy' | 'lateMealWeight' | 'ratingNextDayEnergy' | 'waterEnergy';
+
+export interface Insight {
+  id: InsightId;
+  // Absolute correlation or standardized mean difference; used to rank findings.
+  strength: number;
+  // Positive when the first group or variable goes with higher values of the second.
+  direction: 1 | -1;
+  sampleSize: number;
+  values: Record<string, number>;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variance = (values: number[]) => {
+  const avg = mean(values);
+  return values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1);
+};
+
+export const pearson = (xs: number[], ys: number[]) => {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let sumX = 0;
+  let sumY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    sumX += (x - meanX) ** 2;
+    sumY += (ys[i] - meanY) ** 2;
+  });
+  return sumX && sumY ? covariance / Math.sqrt(sumX * sumY) : 0;
+};
+
+// Cohen's d: difference of the group means in units of their pooled standard deviation.
+const effectSize = (a: number[], b: number[]) => {
+  const pooled = Math.sqrt(((a.length - 1) * variance(a) + (b.length - 1) * variance(b)) / (a.length + b.length - 2));
+  const diff = mean(a) - mean(b);
+  if (pooled === 0) return diff === 0 ? 0 : Math.sign(diff);
+  return diff / pooled;
+};
+
+const compareGroups = (id: InsightId, a: number[], b: number[]): Insight | null => {
+  if (a.length < MIN_GROUP_SIZE || b.length < MIN_GROUP_SIZE) return null;
+  const d = effectSize(a, b);
+  return {
+    id,
+    strength: Math.min(Math.abs(d), 1),
+    direction: d >= 0 ? 1 : -1,
+    sampleSize: a.length + b.length,
+    values: { a: mean(a), b: mean(b), countA: a.length, countB: b.length },
+  };
+};
+
+const correlate = (id: InsightId, pairs: [number, number][]): Insight | null => {
+  if (pairs.length < MIN_PAIRS) return null;
+  const r = pearson(pairs.map(pair => pair[0]), pairs.map(pair => pair[1]));
+  return { id, strength: Math.abs(r), direction: r >= 0 ? 1 : -1, sampleSize: pairs.length, values: { r } };
+};
+
+const getLastMealHour = (entry: DailyLogData) => {
+  const hours = Object.values(entry.meals)
+    .filter(isMealLogged)
+    .map(meal => parseTimeToHours(meal.time))
+    .filter((hour): hour is number => hour !== null);
+  return hours.length ? Math.max(...hours) : null;
+};
+
+export const computeInsights = (daily: AppData['daily'], dates: string[]): Insight[] => {
+  const logged = dates.filter(date => isDayLogged(daily[date]));
+  const nextDay = (date: string) => {
+    const entry = daily[addDays(date, 1)];
+    return isDayLogged(entry) ? entry : null;
+  };
+
+  const goodSleep: number[] = [];
+  const shortSleep: number[] = [];
+  const afterLateMeal: number[] = [];
+  const afterEarlierMeal: number[] = [];
+  const ratingEnergy: [number, number][] = [];
+  const waterEnergy: [number, number][] = [];
+
+  logged.forEach(date => {
+    const entry = daily[date];
+    (entry.sleep >= GOOD_SLEEP_HOURS ? goodSleep : shortSleep).push(entry.energy);
+    waterEnergy.push([entry.water, entry.energy]);
+
+    const next = nextDay(date);
+    if (!next) return;
+    const rating = getMetricValue(entry, 'rating');
+    if (rating !== null) ratingEnergy.push([rating, next.energy]);
+
+    const weight = getMetricValue(entry, 'weight');
+    const nextWeight = getMetricValue(next, 'weight');
+    const lastMealHour = getLastMealHour(entry);
+    if (weight !== null && nextWeight !== null && lastMealHour !== null) {
+      (lastMealHour >= LATE_MEAL_HOUR ? afterLateMeal : afterEarlierMeal).push(nextWeight - weight);
+    }
+  });
+
+  return [
+    compareGroups('sleepEnergy', goodSleep, shortSleep),
+    compareGroups('lateMealWeight', afterLateMeal, afterEarlierMeal),
+    correlate('ratingNextDayEnergy', ratingEnergy),
+    correlate('waterEnergy', waterEnergy),
+  ]
+    .filter((insight): insight is Insight => insight !== null && insight.strength >= MIN_STRENGTH)
+    .sort((a, b) => b.strength - a.strength);
+};
@@ -0,0 +1,46 @@
+import type { BuiltInMealType, DailyLogData, MealData, MealType } from './types';
+
+export interface MealSlot {
+  id: MealType;
+  // Empty for built-in slots that haven't been renamed, so they follow the UI language.
+  name: string;
+  defaultTime: string;
+  hidden: boolean;
+}
+
+export const BUILT_IN_MEAL_SLOTS: MealSlot[] = [
+  { id: 'breakfast', name: '', defaultTime: '08:00', hidden: false },
+  { id: 'lunch', name: '', defaultTime: '12:30', hidden: false },
+  { id: 'snack', name: '', defaultTime: '16:00', hidden: false },
+  { id: 'dinner', name: '', defaultTime: '19:00', hidden: false },
+];
+
+export const isBuiltInMealType = (id: string): id is BuiltInMealType =>
+  BUILT_IN_MEAL_SLOTS.some(slot => slot.id === id);
+
+export const getVisibleSlots = (slots: MealSlot[]) => slots.filter(slot => !slot.hidden);
+
+export const createMealSlot = (name: string, defaultTime: string): MealSlot => ({
+  id: `slot-${Date.now().toString(36)}`,
+  name,
+  defaultTime,
+  hidden: false,
+});
+
+export const moveSlot = (slots: MealSlot[], id: MealType, offset: number) => {
+  const index = slots.findIndex(slot => slot.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= slots.length) return slots;
+  const next = [...slots];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const getDefaultMealTime = (slots: MealSlot[], id: MealType) =>
+  slots.find(slot => slot.id === id)?.defaultTime ?? BUILT_IN_MEAL_SLOTS.find(slot => slot.id === id)?.defaultTime ?? '';
+
+export const createEmptyMeal = (defaultTime: string): MealData => ({ time: defaultTime, menu: '', rating: null, notes: '', items: [], photos: [] });
+
+// Days logged before a slot was added have no entry for it yet.
+export const getMeal = (entry: DailyLogData, slot: MealSlot): MealData =>
+  entry.meals[slot.id] ?? createEmptyMeal(slot.defaultTime);
@@ -0,0 +1,97 @@
+import type { DailyLogData, MealData, MealFoodItem, Nutrients } from './types';
+import builtInFoods from './foods.json';
+
+export type FoodLanguage = 'en' | 'ko';
+
+export interface Food {
+  id: string;
+  name: Record<FoodLanguage, string>;
+  serving: {
+    label: Record<FoodLanguage, string>;
+    amount: number;
+    unit: string;
+  };
+  nutrients: Nutrients;
+  custom?: boolean;
+}
+
+export const BUILT_IN_FOODS = builtInFoods as Food[];
+
+export const EMPTY_NUTRIENTS: Nutrients = { kcal: 0, protein: 0, carbs: 0, fat: 0 };
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isNutrients = (value: unknown): value is Nutrients =>
+  typeof value === 'object' && value !== null &&
+  (['kcal', 'protein', 'carbs', 'fat'] as const).every(key => isFiniteNumber((value as Record<string, unknown>)[key]));
+
+export const isMealFoodItem = (value: unknown): value is MealFoodItem => {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as Record<string, unknown>;
+  return typeof item.id === 'string' &&
+    typeof item.foodId === 'string' &&
+    typeof item.name === 'string' &&
+    typeof item.servingLabel === 'string' &&
+    isFiniteNumber(item.servings) && item.servings > 0 &&
+    isNutrients(item.nutrients);
+};
+
+export const getFoodName = (food: Food, lang: FoodLanguage) => food.name[lang] || food.name.en;
+
+export const getServingLabel = (food: Food, lang: FoodLanguage) => {
+  const label = food.serving.label[lang] || food.serving.label.en;
+  return food.serving.unit ? `${label} (${food.serving.amount}${food.serving.unit})` : label;
+};
+
+export const searchFoods = (foods: Food[], query: string, limit = 8) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return foods
+    .filter(food => Object.values(food.name).some(name => name.toLowerCase().includes(needle)))
+    .sort((a, b) => {
+      const startsA = Object.values(a.name).some(name => name.toLowerCase().startsWith(needle));
+      const startsB = Object.values(b.name).some(name => name.toLowerCase().startsWith(needle));
+      return Number(startsB) - Number(startsA);
+    })
+    .slice(0, limit);
+};
+
+export const createMealFoodItem = (food: Food, lang: FoodLanguage): MealFoodItem => ({
+  id: `${food.id}-${Date.now().toString(36)}`,
+  foodId: food.id,
+  name: getFoodName(food, lang),
+  servingLabel: getServingLabel(food, lang),
+  servings: 1,
+  nutrients: { ...food.nutrients },
+});
+
+export const createCustomFood = (name: string, servingLabel: string, nutrients: Nutrients): Food => ({
+  id: `custom-${Date.now().toString(36)}`,
+  name: { en: name, ko: name },
+  serving: { label: { en: servingLabel, ko: servingLabel }, amount: 0, unit: '' },
+  nutrients,
+  custom: true,
+});
+
+export const addNutrients = (a: Nutrients, b: Nutrients): Nutrients => ({
+  kcal: a.kcal + b.kcal,
+  protein: a.protein + b.protein,
+  carbs: a.carbs + b.carbs,
+  fat: a.fat + b.fat,
+});
+
+export const scaleNutrients = (nutrients: Nutrients, factor: number): Nutrients => ({
+  kcal: nutrients.kcal * factor,
+  protein: nutrients.protein * factor,
+  carbs: nutrients.carbs * factor,
+  fat: nutrients.fat * factor,
+});
+
+export const getItemNutrients = (item: MealFoodItem) => scaleNutrients(item.nutrients, item.servings);
+
+export const getMealNutrients = (meal: MealData) =>
+  meal.items.reduce((total, item) => addNutrients(total, getItemNutrients(item)), EMPTY_NUTRIENTS);
+
+export const getDayNutrients = (entry: DailyLogData) =>
+  Object.values(entry.meals).reduce((total, meal) => addNutrients(total, getMealNutrients(meal)), EMPTY_NUTRIENTS);
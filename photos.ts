@@ -0,0 +1,137 @@
+import type { AppData } from './types';
+import type { DeletedEntry } from './trash';
+import { DB_NAME, deletePhotos, getPhoto, getPhotoIds, openDatabase, putPhoto } from './database';
+import { decodeBlob, encodeBlob, type EncryptionKeys } from './encryption';
+
+// Longest edge of a stored photo; plenty for a thumbnail and a full-screen look on a phone.
+export const MAX_PHOTO_SIZE = 1280;
+const PHOTO_QUALITY = 0.8;
+const PHOTO_TYPE = 'image/jpeg';
+
+export type PhotoData = Record<string, string>;
+
+let photoDatabaseName = DB_NAME;
+let photoDatabase: Promise<IDBDatabase> | null = null;
+let photoKeys: EncryptionKeys | null = null;
+
+// Each profile keeps its photos in its own database, encrypted with the diary's keys when the diary is encrypted;
+// later calls use the ones selected here.
+export const selectPhotoDatabase = (name: string, keys: EncryptionKeys | null) => {
+  photoKeys = keys;
+  if (name === photoDatabaseName) return;
+  photoDatabaseName = name;
+  photoDatabase = null;
+};
+
+const getPhotoDatabase = () => {
+  photoDatabase ??= openDatabase(photoDatabaseName).catch(error => {
+    photoDatabase = null;
+    throw error;
+  });
+  return photoDatabase;
+};
+
+export const isPhotoStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+export const createPhotoId = () => `photo-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode photo')), PHOTO_TYPE, PHOTO_QUALITY);
+});
+
+// Re-encodes camera photos (often several MB) as a JPEG no larger than MAX_PHOTO_SIZE on either edge.
+export const downscaleImage = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvasToBlob(canvas);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const savePhoto = async (file: Blob) => {
+  const [db, blob] = await Promise.all([getPhotoDatabase(), downscaleImage(file)]);
+  const id = createPhotoId();
+  await putPhoto(db, id, await encodeBlob(photoKeys, blob));
+  return id;
+};
+
+export const loadPhoto = async (id: string) => {
+  const photo = await getPhoto(await getPhotoDatabase(), id);
+  return photo && decodeBlob(photoKeys, photo);
+};
+
+// Saves every photo again with new keys, or in plain text with null, when encryption is turned on, off or re-keyed.
+// Photos are read with `previous`; ones already written with `keys` pass through as well, so it can be run again.
+export const rewritePhotos = async (previous: EncryptionKeys | null, keys: EncryptionKeys | null) => {
+  photoKeys = keys;
+  if (!isPhotoStorageAvailable()) return;
+  const db = await getPhotoDatabase();
+  const readKeys = previous && keys ? { ...previous, keys: { ...previous.keys, ...keys.keys } } : previous ?? keys;
+  for (const id of await getPhotoIds(db)) {
+    const photo = await getPhoto(db, id);
+    if (photo) await putPhoto(db, id, await encodeBlob(keys, await decodeBlob(readKeys, photo)));
+  }
+};
+
+export const getReferencedPhotoIds = (data: AppData, trash: DeletedEntry[] = []) => {
+  const ids = new Set<string>();
+  // Guarded although entries are repaired on load: a missing list must never stop the app from starting.
+  const addEntry = (entry: AppData['daily'][string]) =>
+    Object.values(entry.meals).forEach(meal => (meal.photos ?? []).forEach(id => ids.add(id)));
+  Object.values(data.daily).forEach(addEntry);
+  trash.forEach(item => {
+    if (item.section === 'daily') addEntry(item.entry);
+  });
+  return ids;
+};
+
+// Photos younger than this are never pruned: another tab may have attached them without saving the entry yet.
+const PRUNE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const getPhotoCreatedAt = (id: string) => parseInt(id.split('-')[1] ?? '', 36);
+
+// Removing a photo from a meal keeps its Blob so undo can bring it back; unreferenced Blobs are cleared on the next load.
+export const prunePhotos = async (referenced: Set<string>, now = Date.now()) => {
+  const db = await getPhotoDatabase();
+  const unused = (await getPhotoIds(db)).filter(id => !referenced.has(id) && !(now - getPhotoCreatedAt(id) < PRUNE_GRACE_MS));
+  if (unused.length) await deletePhotos(db, unused);
+  return unused.length;
+};
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const isPhotoDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:image/');
+
+// Backups carry photos as data URLs so a single JSON file restores everything.
+export const exportPhotos = async (ids: Iterable<string>): Promise<PhotoData> => {
+  const db = await getPhotoDatabase();
+  const photos: PhotoData = {};
+  for (const id of ids) {
+    const photo = await getPhoto(db, id);
+    if (photo) photos[id] = await blobToDataUrl(await decodeBlob(photoKeys, photo));
+  }
+  return photos;
+};
+
+export const importPhotos = async (photos: PhotoData) => {
+  const db = await getPhotoDatabase();
+  for (const [id, dataUrl] of Object.entries(photos)) {
+    await putPhoto(db, id, await encodeBlob(photoKeys, await dataUrlToBlob(dataUrl)));
+  }
+};
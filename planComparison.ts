@@ -0,0 +1,85 @@
+import type { AppData, MealType, WeeklyPlanData } from './types';
+import { getOverlappingWeekStart, getWeekStartDate, type WeekStart } from './dates';
+import { createDefaultDailyLog } from './defaults';
+import { getMeal, type MealSlot } from './mealSlots';
+
+export type PlanStatus = 'match' | 'deviation' | 'unlogged' | 'upcoming' | 'unplanned' | 'empty';
+
+export interface PlanComparisonCell {
+  date: string;
+  meal: MealType;
+  planned: string;
+  actual: string;
+  status: PlanStatus;
+}
+
+export interface Adherence {
+  matched: number;
+  // Planned meals on days that have already happened.
+  due: number;
+  score: number | null;
+}
+
+const normalizeMenu = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Loose on purpose: "oatmeal" planned and "oatmeal with berries" eaten still counts as sticking to the plan.
+export const menusMatch = (planned: string, actual: string) => {
+  const a = normalizeMenu(planned);
+  const b = normalizeMenu(actual);
+  return a === b || a.includes(b) || b.includes(a);
+};
+
+export const getPlanStatus = (planned: string, actual: string, isFuture: boolean): PlanStatus => {
+  if (!planned.trim()) return actual.trim() ? 'unplanned' : 'empty';
+  if (!actual.trim()) return isFuture ? 'upcoming' : 'unlogged';
+  return menusMatch(planned, actual) ? 'match' : 'deviation';
+};
+
+export const comparePlan = (data: AppData, weekStart: string, dates: string[], slots: MealSlot[], today: string): PlanComparisonCell[] => {
+  const plan = data.weekly[weekStart]?.days ?? {};
+  return dates.flatMap(date => slots.map(slot => {
+    const planned = plan[date]?.[slot.id] ?? '';
+    const entry = data.daily[date];
+    const actual = entry ? getMeal(entry, slot).menu : '';
+    return { date, meal: slot.id, planned, actual, status: getPlanStatus(planned, actual, date > today) };
+  }));
+};
+
+export const getAdherence = (cells: PlanComparisonCell[]): Adherence => {
+  const due = cells.filter(cell => cell.status === 'match' || cell.status === 'deviation' || cell.status === 'unlogged').length;
+  const matched = cells.filter(cell => cell.status === 'match').length;
+  return { matched, due, score: due ? matched / due : null };
+};
+
+export const logAsPlanned = (data: AppData, date: string, slot: MealSlot, menu: string, slots: MealSlot[]): AppData => {
+  const entry = data.daily[date] || createDefaultDailyLog(slots);
+  return {
+    ...data,
+    daily: {
+      ...data.daily,
+      [date]: { ...entry, meals: { ...entry.meals, [slot.id]: { ...getMeal(entry, slot), menu } } },
+    },
+  };
+};
+
+// Plans are keyed by the first day of their week, so a new week start moves each planned day into the week that now
+// contains it; notes follow the week that overlaps their old one the most.
+export const regroupWeeklyPlans = (weekly: AppData['weekly'], weekStart: WeekStart): AppData['weekly'] => {
+  const regrouped: AppData['weekly'] = {};
+  const getPlan = (key: string): WeeklyPlanData => {
+    if (!regrouped[key]) regrouped[key] = { days: {}, notes: '' };
+    return regrouped[key];
+  };
+  Object.keys(weekly).sort().forEach(key => {
+    const plan = weekly[key];
+    Object.entries(plan.days).forEach(([date, day]) => {
+      const target = getPlan(getWeekStartDate(date, weekStart));
+      target.days[date] = { ...target.days[date], ...day };
+    });
+    if (plan.notes.trim()) {
+      const target = getPlan(getOverlappingWeekStart(key, weekStart));
+      target.notes = target.notes ? `${target.notes}\n\n${plan.notes}` : plan.notes;
+    }
+  });
+  return regrouped;
+};
@@ -0,0 +1,72 @@
+import type { AppData, WeeklyPlanData } from './types';
+
+export interface ProfilePin {
+  salt: string;
+  hash: string;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  color: string;
+  // A PIN keeps others on a shared device out of the diary; it does not encrypt anything.
+  pin: ProfilePin | null;
+}
+
+export const PROFILES_KEY = 'foodDiary_profiles';
+export const ACTIVE_PROFILE_KEY = 'foodDiary_activeProfile';
+// Per tab, so a PIN is asked for again in a new tab or after the browser is closed.
+export const UNLOCKED_PROFILES_KEY = 'foodDiary_unlockedProfiles';
+
+// The profile that owns everything saved before profiles existed, under the original unscoped keys.
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILE_COLORS = ['#8e44ad', '#e67e22', '#16a085', '#2980b9', '#c0392b', '#7f8c8d'];
+
+export const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: '', color: PROFILE_COLORS[0], pin: null };
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+export const createProfile = (name: string, color: string): Profile => ({
+  id: `profile-${Date.now().toString(36)}`,
+  name,
+  color,
+  pin: null,
+});
+
+// Storage keys, database names and sync channels of other profiles get the profile id appended.
+export const scopeStorageKey = (key: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}@${profileId}`;
+
+export const isScopedToProfile = (key: string, profileId: string) =>
+  profileId !== DEFAULT_PROFILE_ID && key.endsWith(`@${profileId}`);
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (pin: string, salt: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`)));
+
+export const createPin = async (pin: string): Promise<ProfilePin> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  return { salt, hash: await hashPin(pin, salt) };
+};
+
+export const verifyPin = async (pin: ProfilePin, attempt: string) => (await hashPin(attempt, pin.salt)) === pin.hash;
+
+// Planned meals from `source` replace the target's for the same day and meal; everything else in the target stays.
+export const mergeWeeklyPlans = (target: AppData['weekly'], source: AppData['weekly']): AppData['weekly'] => {
+  const merged = { ...target };
+  Object.entries(source).forEach(([key, plan]) => {
+    const existing: WeeklyPlanData = merged[key] ?? { days: {}, notes: '' };
+    const days = { ...existing.days };
+    Object.entries(plan.days).forEach(([date, day]) => {
+      const planned = Object.fromEntries(Object.entries(day).filter(([, menu]) => menu.trim()));
+      if (Object.keys(planned).length) days[date] = { ...days[date], ...planned };
+    });
+    const notes = !plan.notes.trim() || existing.notes.includes(plan.notes)
+      ? existing.notes
+      : existing.notes.trim() ? `${existing.notes}\n\n${plan.notes}` : plan.notes;
+    merged[key] = { days, notes };
+  });
+  return merged;
+};
@@ -0,0 +1,66 @@
+import type { AppData } from './types';
+
+export const RECIPE_DRAG_TYPE = 'application/x-food-diary-recipe';
+
+export interface Recipe {
+  id: string;
+  name: string;
+  ingredients: string[];
+  servings: number;
+  tags: string[];
+  notes: string;
+}
+
+export type MenuSuggestion =
+  | { kind: 'recipe'; text: string; recipe: Recipe }
+  | { kind: 'history'; text: string; count: number };
+
+export interface PastMenu {
+  text: string;
+  count: number;
+}
+
+export const createRecipe = (fields: Omit<Recipe, 'id'>): Recipe => ({
+  id: `recipe-${Date.now().toString(36)}`,
+  ...fields,
+});
+
+// Ingredients and tags are edited as free text: one per line or comma-separated.
+export const parseList = (text: string) =>
+  text.split(/[\n,]/).map(part => part.trim()).filter(Boolean);
+
+export const getRecipeTags = (recipes: Recipe[]) =>
+  [...new Set(recipes.flatMap(recipe => recipe.tags))].sort((a, b) => a.localeCompare(b));
+
+export const filterRecipes = (recipes: Recipe[], query: string, tag: string | null) => {
+  const needle = query.trim().toLowerCase();
+  return recipes.filter(recipe =>
+    (!tag || recipe.tags.includes(tag)) &&
+    (!needle || [recipe.name, ...recipe.ingredients, ...recipe.tags].some(text => text.toLowerCase().includes(needle)))
+  );
+};
+
+// Every distinct menu ever logged, most frequent first.
+export const getPastMenus = (daily: AppData['daily']): PastMenu[] => {
+  const counts = new Map<string, number>();
+  Object.values(daily).forEach(entry => Object.values(entry.meals).forEach(meal => {
+    const menu = meal.menu.trim();
+    if (menu) counts.set(menu, (counts.get(menu) ?? 0) + 1);
+  }));
+  return [...counts.entries()]
+    .map(([text, count]) => ({ text, count }))
+    .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text));
+};
+
+export const getMenuSuggestions = (query: string, recipes: Recipe[], pastMenus: PastMenu[], limit = 6): MenuSuggestion[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const matches = (text: string) => text.toLowerCase().includes(needle) && text.trim().toLowerCase() !== needle;
+  const fromRecipes: MenuSuggestion[] = recipes
+    .filter(recipe => matches(recipe.name) || recipe.tags.some(tag => tag.toLowerCase() === needle))
+    .map(recipe => ({ kind: 'recipe', text: recipe.name, recipe }));
+  const fromHistory: MenuSuggestion[] = pastMenus
+    .filter(menu => matches(menu.text) && !recipes.some(recipe => recipe.name === menu.text))
+    .map(menu => ({ kind: 'history', text: menu.text, count: menu.count }));
+  return [...fromRecipes, ...fromHistory].slice(0, limit);
+};
@@ -0,0 +1,95 @@
+import type { DailyLogData, MealType } from './types';
+import { isMealLogged, parseTimeToHours } from './analysis';
+import { getMeal, type MealSlot } from './mealSlots';
+
+export interface MealReminder {
+  enabled: boolean;
+  // Minutes after the slot's default time; negative values remind ahead of it.
+  offsetMinutes: number;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  // Keyed by meal slot id; slots without an entry use DEFAULT_MEAL_REMINDER.
+  meals: Record<MealType, MealReminder>;
+  water: { enabled: boolean; intervalMinutes: number; from: string; to: string };
+  weighIn: { enabled: boolean; time: string };
+}
+
+export type DueReminder =
+  | { id: string; kind: 'meal'; slot: MealSlot }
+  | { id: string; kind: 'water'; cups: number; goalCups: number }
+  | { id: string; kind: 'weighIn' };
+
+export const WATER_INTERVAL_OPTIONS = [60, 90, 120, 180];
+
+export const DEFAULT_MEAL_REMINDER: MealReminder = { enabled: true, offsetMinutes: 30 };
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  meals: {},
+  water: { enabled: true, intervalMinutes: 120, from: '10:00', to: '20:00' },
+  weighIn: { enabled: true, time: '07:30' },
+};
+
+// A reminder that came due while the app was closed is still shown if the app is opened within this window.
+export const REMINDER_WINDOW_MINUTES = 60;
+
+const toMinutes = (time: string) => {
+  const hours = parseTimeToHours(time);
+  return hours === null ? null : Math.round(hours * 60);
+};
+
+const isDue = (at: number | null, now: number, window = REMINDER_WINDOW_MINUTES) =>
+  at !== null && now >= at && now < at + window;
+
+export const getMealReminder = (settings: ReminderSettings, slotId: MealType) =>
+  settings.meals[slotId] ?? DEFAULT_MEAL_REMINDER;
+
+export const getMealReminderTime = (slot: MealSlot, reminder: MealReminder) => {
+  const at = toMinutes(slot.defaultTime);
+  return at === null ? null : at + reminder.offsetMinutes;
+};
+
+// Reminders due at `nowMinutes` (minutes since local midnight), skipping anything already filled in for `today`.
+export const getDueReminders = (
+  settings: ReminderSettings,
+  slots: MealSlot[],
+  entry: DailyLogData | undefined,
+  waterGoalCups: number,
+  today: string,
+  nowMinutes: number,
+): DueReminder[] => {
+  if (!settings.enabled) return [];
+  const due: DueReminder[] = [];
+
+  slots.forEach(slot => {
+    const reminder = getMealReminder(settings, slot.id);
+    if (!reminder.enabled || !isDue(getMealReminderTime(slot, reminder), nowMinutes)) return;
+    if (entry && isMealLogged(getMeal(entry, slot))) return;
+    due.push({ id: `meal:${today}:${slot.id}`, kind: 'meal', slot });
+  });
+
+  const { water } = settings;
+  const from = toMinutes(water.from);
+  const to = toMinutes(water.to);
+  const cups = entry?.water ?? 0;
+  if (water.enabled && from !== null && to !== null && water.intervalMinutes > 0 && nowMinutes >= from && cups < waterGoalCups) {
+    // Only the most recent nudge counts; missed earlier ones aren't replayed.
+    const index = Math.floor((nowMinutes - from) / water.intervalMinutes);
+    const at = from + index * water.intervalMinutes;
+    if (at <= to && isDue(at, nowMinutes, Math.min(REMINDER_WINDOW_MINUTES, water.intervalMinutes))) {
+      due.push({ id: `water:${today}:${index}`, kind: 'water', cups, goalCups: waterGoalCups });
+    }
+  }
+
+  if (settings.weighIn.enabled && isDue(toMinutes(settings.weighIn.time), nowMinutes) && (!entry || entry.weight === null)) {
+    due.push({ id: `weighIn:${today}`, kind: 'weighIn' });
+  }
+
+  return due;
+};
+
+// Reminder ids embed their date, so yesterday's can be dropped from the log of shown reminders.
+export const pruneShownReminders = (ids: string[], today: string) =>
+  ids.filter(id => id.split(':')[1] === today);
@@ -0,0 +1,95 @@
+import type { AppData, MealType } from './types';
+
+export type SearchField = 'menu' | 'mealNotes' | 'exercise' | 'notes' | 'plan' | 'weeklyNotes';
+
+export interface SearchFilters {
+  meal: MealType | null;
+  rating: number | null;
+  from: string;
+  to: string;
+}
+
+export interface SearchResult {
+  id: string;
+  section: keyof AppData;
+  // The day the text belongs to; the week's start date for weekly notes.
+  date: string;
+  field: SearchField;
+  meal: MealType | null;
+  text: string;
+  matchStart: number;
+  matchLength: number;
+}
+
+export const EMPTY_FILTERS: SearchFilters = { meal: null, rating: null, from: '', to: '' };
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+const SYLLABLES_PER_INITIAL = 21 * 28;
+const CHOSUNG = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
+export const getChosung = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= HANGUL_START && code <= HANGUL_END ? CHOSUNG[Math.floor((code - HANGUL_START) / SYLLABLES_PER_INITIAL)] : null;
+};
+
+// A query character matches itself, or, when it's a bare initial consonant, any syllable starting with it ("ㄱㅊ" finds "김치").
+const charMatches = (textChar: string, queryChar: string) =>
+  textChar === queryChar || (CHOSUNG.includes(queryChar) && getChosung(textChar) === queryChar);
+
+const normalize = (text: string) => text.normalize('NFC').toLowerCase();
+
+export const findMatch = (text: string, query: string) => {
+  const haystack = [...normalize(text)];
+  const needle = [...normalize(query.trim())];
+  if (!needle.length) return -1;
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((char, i) => charMatches(haystack[start + i], char))) {
+      // Convert from code points back to a string index for highlighting.
+      return haystack.slice(0, start).join('').length;
+    }
+  }
+  return -1;
+};
+
+export const searchDiary = (data: AppData, query: string, filters: SearchFilters): SearchResult[] => {
+  const results: SearchResult[] = [];
+  const mealFiltered = filters.meal !== null || filters.rating !== null;
+  const inRange = (date: string) => (!filters.from || date >= filters.from) && (!filters.to || date <= filters.to);
+  const matchLength = [...query.trim()].length;
+
+  const add = (section: keyof AppData, date: string, field: SearchField, meal: MealType | null, text: string) => {
+    const matchStart = findMatch(text, query);
+    if (matchStart < 0) return;
+    const length = [...text.slice(matchStart)].slice(0, matchLength).join('').length;
+    results.push({ id: `${section}:${date}:${field}:${meal ?? ''}`, section, date, field, meal, text, matchStart, matchLength: length });
+  };
+
+  Object.entries(data.daily).forEach(([date, entry]) => {
+    if (!inRange(date)) return;
+    Object.entries(entry.meals).forEach(([meal, mealData]) => {
+      if (filters.meal !== null && filters.meal !== meal) return;
+      if (filters.rating !== null && filters.rating !== mealData.rating) return;
+      add('daily', date, 'menu', meal, mealData.menu);
+      add('daily', date, 'mealNotes', meal, mealData.notes);
+    });
+    if (mealFiltered) return;
+    add('daily', date, 'exercise', null, entry.exercise);
+    add('daily', date, 'notes', null, entry.notes);
+  });
+
+  // Plans have no rating, so a rating filter leaves them out.
+  if (filters.rating === null) {
+    Object.entries(data.weekly).forEach(([weekStart, plan]) => {
+      Object.entries(plan.days).forEach(([date, day]) => {
+        if (!inRange(date)) return;
+        Object.entries(day).forEach(([meal, menu]) => {
+          if (filters.meal === null || filters.meal === meal) add('weekly', date, 'plan', meal, menu);
+        });
+      });
+      if (filters.meal === null && inRange(weekStart)) add('weekly', weekStart, 'weeklyNotes', null, plan.notes);
+    });
+  }
+
+  return results.sort((a, b) => b.date.localeCompare(a.date));
+};
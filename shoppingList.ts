@@ -0,0 +1,148 @@
+import type { WeeklyPlanData } from './types';
+import { getOverlappingWeekStart, type WeekStart } from './dates';
+import { parseList, type Recipe } from './recipes';
+
+export const SHOPPING_CATEGORIES = ['produce', 'meatSeafood', 'dairyEggs', 'grains', 'pantry', 'other'] as const;
+
+export type ShoppingCategory = typeof SHOPPING_CATEGORIES[number];
+
+export interface ParsedIngredient {
+  name: string;
+  quantity: number | null;
+  unit: string;
+}
+
+export interface ShoppingItem {
+  key: string;
+  name: string;
+  quantity: number | null;
+  unit: string;
+  // How many planned meals need it; shown for items without a quantity.
+  count: number;
+  category: ShoppingCategory;
+}
+
+export interface ManualShoppingItem {
+  id: string;
+  name: string;
+  category: ShoppingCategory;
+}
+
+// Checked items are stored by key so they stay checked when the plan is edited.
+export interface ShoppingListState {
+  checked: string[];
+  manual: ManualShoppingItem[];
+}
+
+export const EMPTY_SHOPPING_LIST: ShoppingListState = { checked: [], manual: [] };
+
+const UNITS = [
+  'g', 'kg', 'mg', 'ml', 'l', 'cup', 'cups', 'tbsp', 'tsp', 'oz', 'lb', 'pcs', 'pc', 'slice', 'slices', 'pack', 'can',
+  '개', '모', '봉', '팩', '컵', '큰술', '작은술', '쪽', '줌', '장', '마리', '캔', '인분',
+];
+const UNIT_PATTERN = UNITS.slice().sort((a, b) => b.length - a.length).join('|');
+const QUANTITY_PATTERN = String.raw`(\d+(?:[.,]\d+)?|\d+/\d+)`;
+const LEADING = new RegExp(String.raw`^${QUANTITY_PATTERN}\s*(${UNIT_PATTERN})?\s+(.+)$`, 'i');
+const TRAILING = new RegExp(String.raw`^(.+?)\s+${QUANTITY_PATTERN}\s*(${UNIT_PATTERN})?$`, 'i');
+
+const CATEGORY_KEYWORDS: Record<Exclude<ShoppingCategory, 'other'>, string[]> = {
+  produce: [
+    'apple', 'banana', 'berr', 'lettuce', 'spinach', 'tomato', 'onion', 'garlic', 'potato', 'carrot', 'cabbage',
+    'cucumber', 'pepper', 'eggplant', 'broccoli', 'mushroom', 'fruit', 'vegetable', 'salad', 'avocado', 'lemon',
+    '사과', '바나나', '양파', '마늘', '감자', '당근', '배추', '양배추', '오이', '고추', '버섯', '상추', '시금치', '토마토', '대파', '과일', '채소', '김치',
+  ],
+  meatSeafood: [
+    'chicken', 'beef', 'pork', 'bacon', 'ham', 'sausage', 'fish', 'salmon', 'tuna', 'shrimp', 'meat',
+    '닭', '소고기', '돼지', '고기', '베이컨', '햄', '생선', '연어', '참치', '새우', '오징어', '멸치',
+  ],
+  dairyEggs: ['milk', 'cheese', 'yogurt', 'butter', 'cream', 'egg', '우유', '치즈', '요거트', '버터', '계란', '달걀'],
+  grains: ['rice', 'bread', 'oat', 'pasta', 'noodle', 'flour', 'cereal', 'tortilla', '쌀', '밥', '빵', '오트', '파스타', '면', '국수', '밀가루', '떡'],
+  pantry: [
+    'oil', 'salt', 'sugar', 'sauce', 'vinegar', 'honey', 'spice', 'soy', 'tofu', 'bean', 'nut',
+    '기름', '소금', '설탕', '간장', '된장', '고추장', '식초', '꿀', '두부', '콩', '견과',
+  ],
+};
+
+const parseQuantity = (text: string) => {
+  const [numerator, denominator] = text.replace(',', '.').split('/');
+  return denominator ? Number(numerator) / Number(denominator) : Number(numerator);
+};
+
+// "200 g chicken breast", "eggs 2", "두부 1모" or just "kimchi".
+export const parseIngredient = (line: string): ParsedIngredient => {
+  const text = line.trim().replace(/\s+/g, ' ');
+  const leading = LEADING.exec(text);
+  if (leading) return { name: leading[3].trim(), quantity: parseQuantity(leading[1]), unit: (leading[2] ?? '').toLowerCase() };
+  const trailing = TRAILING.exec(text);
+  if (trailing) return { name: trailing[1].trim(), quantity: parseQuantity(trailing[2]), unit: (trailing[3] ?? '').toLowerCase() };
+  return { name: text, quantity: null, unit: '' };
+};
+
+export const categorize = (name: string): ShoppingCategory => {
+  const lower = name.toLowerCase();
+  const match = (Object.keys(CATEGORY_KEYWORDS) as (keyof typeof CATEGORY_KEYWORDS)[])
+    .find(category => CATEGORY_KEYWORDS[category].some(keyword => lower.includes(keyword)));
+  return match ?? 'other';
+};
+
+const findRecipe = (recipes: Recipe[], text: string) => {
+  const name = text.trim().toLowerCase();
+  return recipes.find(recipe => recipe.name.trim().toLowerCase() === name);
+};
+
+// A planned recipe contributes one serving, so its ingredients are divided by the servings it makes.
+const getPlannedIngredients = (menu: string, recipes: Recipe[]): ParsedIngredient[] => {
+  const recipe = findRecipe(recipes, menu);
+  const parts = recipe ? [menu] : parseList(menu);
+  return parts.flatMap(part => {
+    const partRecipe = findRecipe(recipes, part);
+    if (!partRecipe || !partRecipe.ingredients.length) return [parseIngredient(part)];
+    return partRecipe.ingredients.map(line => {
+      const ingredient = parseIngredient(line);
+      return ingredient.quantity === null ? ingredient : { ...ingredient, quantity: ingredient.quantity / partRecipe.servings };
+    });
+  });
+};
+
+export const buildShoppingList = (plan: WeeklyPlanData | undefined, recipes: Recipe[]): ShoppingItem[] => {
+  const items = new Map<string, ShoppingItem>();
+  Object.values(plan?.days ?? {}).forEach(day => Object.values(day).forEach(menu => {
+    if (!menu.trim()) return;
+    getPlannedIngredients(menu, recipes).forEach(ingredient => {
+      const key = `${ingredient.name.toLowerCase()}|${ingredient.unit}`;
+      const existing = items.get(key);
+      if (existing) {
+        existing.count++;
+        if (ingredient.quantity !== null) existing.quantity = (existing.quantity ?? 0) + ingredient.quantity;
+      } else {
+        items.set(key, { key, ...ingredient, count: 1, category: categorize(ingredient.name) });
+      }
+    });
+  }));
+  return [...items.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createManualItem = (name: string, category: ShoppingCategory): ManualShoppingItem => ({
+  id: `manual-${Date.now().toString(36)}`,
+  name,
+  category,
+});
+
+export const toggleChecked = (list: ShoppingListState, key: string): ShoppingListState => ({
+  ...list,
+  checked: list.checked.includes(key) ? list.checked.filter(other => other !== key) : [...list.checked, key],
+});
+
+// Shopping lists are keyed like weekly plans; lists that end up in the same week are combined.
+export const regroupShoppingLists = (lists: Record<string, ShoppingListState>, weekStart: WeekStart) => {
+  const regrouped: Record<string, ShoppingListState> = {};
+  Object.entries(lists).forEach(([key, list]) => {
+    const target = getOverlappingWeekStart(key, weekStart);
+    const existing = regrouped[target] ?? EMPTY_SHOPPING_LIST;
+    regrouped[target] = {
+      checked: [...new Set([...existing.checked, ...list.checked])],
+      manual: [...existing.manual, ...list.manual.filter(item => !existing.manual.some(other => other.id === item.id))],
+    };
+  });
+  return regrouped;
+};
@@ -0,0 +1,322 @@
+import type { AppData, DailyLogData, MealData, WeeklyPlanData } from './types';
+import { createDefaultDailyLog } from './defaults';
+import { decodeValue, encodeValue, type EncryptionKeys } from './encryption';
+import { createEmptyMeal } from './mealSlots';
+import { isExerciseEntry } from './exercise';
+import { isMealFoodItem } from './nutrition';
+import { parseStoredWeight } from './weight';
+
+export const STORAGE_KEY = 'foodDiary_data';
+export const RECOVERY_KEY_PREFIX = 'foodDiary_recovery_';
+export const SCHEMA_VERSION = 6;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface StoredAppData {
+  schemaVersion: number;
+  // Encrypted as a whole when the diary is encrypted (see encryption.ts).
+  data: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapRecord = (record: unknown, fn: (value: unknown) => unknown) =>
+  isRecord(record) ? Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)])) : record;
+
+interface Migration {
+  version: number;
+  migrate: (data: unknown) => unknown;
+}
+
+// Each migration upgrades data from `version - 1` to `version`. Append new ones; never edit released ones.
+const MIGRATIONS: Migration[] = [
+  {
+    // Unversioned blobs written by the original useLocalStorage hook.
+    version: 1,
+    migrate: data => ({ daily: isRecord(data) ? data.daily ?? {} : {}, weekly: isRecord(data) ? data.weekly ?? {} : {} }),
+  },
+  {
+    // Meals gained structured food items for nutrition tracking.
+    version: 2,
+    migrate: data => isRecord(data) ? {
+      ...data,
+      daily: mapRecord(data.daily, entry => isRecord(entry) && isRecord(entry.meals)
+        ? { ...entry, meals: mapRecord(entry.meals, meal => isRecord(meal) ? { ...meal, items: meal.items ?? [] } : meal) }
+        : entry),
+    } : data,
+  },
+  {
+    // Meals gained photo attachments.
+    version: 3,
+    migrate: data => isRecord(data) ? {
+      ...data,
+      daily: mapRecord(data.daily, entry => isRecord(entry) && isRecord(entry.meals)
+        ? { ...entry, meals: mapRecord(entry.meals, meal => isRecord(meal) ? { ...meal, photos: meal.photos ?? [] } : meal) }
+        : entry),
+    } : data,
+  },
+  {
+    // Weight moved from free text to a number of kilograms.
+    version: 4,
+    migrate: data => isRecord(data) ? {
+      ...data,
+      daily: mapRecord(data.daily, entry => isRecord(entry) ? { ...entry, weight: parseStoredWeight(entry.weight) } : entry),
+    } : data,
+  },
+  {
+    // Days gained structured exercise entries next to the old free-text field.
+    version: 5,
+    migrate: data => isRecord(data) ? {
+      ...data,
+      daily: mapRecord(data.daily, entry => isRecord(entry) ? { ...entry, exercises: entry.exercises ?? [] } : entry),
+    } : data,
+  },
+  {
+    // Dates became local calendar days instead of UTC ones. Nothing to convert: data saved before may be a day off,
+    // which dateCheck.ts looks for.
+    version: 6,
+    migrate: data => data,
+  },
+];
+
+export type StorageLoadStatus = 'empty' | 'ok' | 'repaired' | 'safeMode';
+
+export interface StorageLoadResult {
+  status: StorageLoadStatus;
+  data: AppData;
+  repairedCount: number;
+  droppedCount: number;
+  recoveryKey: string | null;
+  recoveryBlob: string | null;
+  // The schema version the data was saved with; null when nothing was stored or it couldn't be read.
+  storedVersion: number | null;
+}
+
+export const createEmptyAppData = (): AppData => ({ daily: {}, weekly: {} });
+
+export const isDateKey = (key: string) =>
+  DATE_KEY_PATTERN.test(key) && !isNaN(new Date(key + 'T00:00:00').getTime());
+
+const toNumber = (value: unknown, fallback: number) => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+};
+
+const toText = (value: unknown, fallback = '') =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : fallback;
+
+// Sections are returned unchecked; normalizeAppData repairs them.
+export const migrateAppData = (data: unknown, fromVersion: number): Record<keyof AppData, unknown> => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Stored schema version ${fromVersion} is newer than supported version ${SCHEMA_VERSION}`);
+  }
+  const migrated = MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), data);
+  if (!isRecord(migrated)) throw new Error('Stored data is not an object');
+  return { daily: migrated.daily, weekly: migrated.weekly };
+};
+
+const repairMeal = (value: unknown, fallback: MealData): MealData => {
+  if (!isRecord(value)) return fallback;
+  const rating = toNumber(value.rating, NaN);
+  return {
+    time: toText(value.time, fallback.time),
+    menu: toText(value.menu),
+    rating: rating >= 1 && rating <= 4 ? Math.round(rating) : null,
+    notes: toText(value.notes),
+    items: Array.isArray(value.items) ? value.items.filter(isMealFoodItem) : [],
+    photos: Array.isArray(value.photos) ? value.photos.filter((id): id is string => typeof id === 'string') : [],
+  };
+};
+
+export const repairDailyLog = (value: unknown): DailyLogData | null => {
+  if (!isRecord(value)) return null;
+  const defaults = createDefaultDailyLog();
+  const meals = isRecord(value.meals) ? value.meals : {};
+  return {
+    meals: {
+      ...defaults.meals,
+      ...Object.fromEntries(
+        Object.entries(meals).map(([meal, mealData]) => [meal, repairMeal(mealData, defaults.meals[meal] ?? createEmptyMeal(''))])
+      ),
+    },
+    water: Math.max(0, Math.round(toNumber(value.water, defaults.water))),
+    weight: parseStoredWeight(value.weight),
+    sleep: toNumber(value.sleep, defaults.sleep),
+    energy: Math.min(5, Math.max(1, Math.round(toNumber(value.energy, defaults.energy)))),
+    exercise: toText(value.exercise),
+    exercises: Array.isArray(value.exercises) ? value.exercises.filter(isExerciseEntry) : [],
+    notes: toText(value.notes),
+  };
+};
+
+export const repairWeeklyPlan = (value: unknown): WeeklyPlanData | null => {
+  if (!isRecord(value)) return null;
+  const days: WeeklyPlanData['days'] = {};
+  if (isRecord(value.days)) {
+    Object.entries(value.days).forEach(([date, plan]) => {
+      if (!isDateKey(date) || !isRecord(plan)) return;
+      days[date] = Object.fromEntries(Object.entries(plan).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+    });
+  }
+  return { days, notes: toText(value.notes) };
+};
+
+const repairSection = <T>(
+  source: unknown,
+  repair: (value: unknown) => T | null,
+  dropped: Record<string, unknown>,
+) => {
+  const entries: Record<string, T> = {};
+  let repairedCount = 0;
+  if (!isRecord(source)) return { entries, repairedCount };
+  Object.entries(source).forEach(([key, value]) => {
+    const repaired = isDateKey(key) ? repair(value) : null;
+    if (repaired === null) {
+      dropped[key] = value;
+    } else {
+      if (JSON.stringify(repaired) !== JSON.stringify(value)) repairedCount++;
+      entries[key] = repaired;
+    }
+  });
+  return { entries, repairedCount };
+};
+
+export interface NormalizedAppData {
+  data: AppData;
+  repairedCount: number;
+  droppedCount: number;
+  dropped: Record<keyof AppData, Record<string, unknown>>;
+  storedVersion: number;
+}
+
+// Migrates data saved under `fromVersion` and repairs or drops entries that don't match the current shapes.
+export const normalizeAppData = (raw: unknown, fromVersion: number): NormalizedAppData => {
+  const migrated = migrateAppData(raw, fromVersion);
+  const dropped: NormalizedAppData['dropped'] = { daily: {}, weekly: {} };
+  const daily = repairSection(migrated.daily, repairDailyLog, dropped.daily);
+  const weekly = repairSection(migrated.weekly, repairWeeklyPlan, dropped.weekly);
+  return {
+    data: { daily: daily.entries, weekly: weekly.entries },
+    repairedCount: daily.repairedCount + weekly.repairedCount,
+    droppedCount: Object.keys(dropped.daily).length + Object.keys(dropped.weekly).length,
+    dropped,
+    storedVersion: fromVersion,
+  };
+};
+
+// Recovery copies are scoped like the diary they came from: `storageKey` is the diary's (possibly profile-scoped)
+// STORAGE_KEY, and its profile suffix is appended to the copy's key.
+const getRecoveryScope = (storageKey: string) => storageKey.slice(STORAGE_KEY.length);
+
+const isRecoveryKey = (key: string | null, storageKey: string): key is string => {
+  const scope = getRecoveryScope(storageKey);
+  return !!key && key.startsWith(RECOVERY_KEY_PREFIX) && (scope ? key.endsWith(scope) : !key.includes('@'));
+};
+
+const getRecoveryKeys = (storageKey: string) => {
+  const keys: string[] = [];
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (isRecoveryKey(key, storageKey)) keys.push(key);
+  }
+  return keys;
+};
+
+export const saveRecoveryCopy = (raw: string, storageKey = STORAGE_KEY) => {
+  const key = `${RECOVERY_KEY_PREFIX}${Date.now()}${getRecoveryScope(storageKey)}`;
+  try {
+    const existingKey = getRecoveryKeys(storageKey).find(existing => window.localStorage.getItem(existing) === raw);
+    if (existingKey) return existingKey;
+    window.localStorage.setItem(key, raw);
+    return key;
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+};
+
+// Called when encryption is turned on or off: copies saved before would otherwise stay in plain text, or stay
+// encrypted with keys that are about to be discarded.
+export const clearRecoveryCopies = (storageKey = STORAGE_KEY) => {
+  try {
+    getRecoveryKeys(storageKey).forEach(key => window.localStorage.removeItem(key));
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+// Entries that had to be dropped are kept encrypted like the diary; `recoveryBlob` stays readable for downloading.
+export const createLoadResult = async (
+  normalized: NormalizedAppData, storageKey = STORAGE_KEY, keys: EncryptionKeys | null = null
+): Promise<StorageLoadResult> => {
+  const { data, repairedCount, droppedCount, dropped, storedVersion } = normalized;
+  const recoveryBlob = droppedCount ? JSON.stringify(dropped) : null;
+  return {
+    status: repairedCount || droppedCount ? 'repaired' : 'ok',
+    data,
+    repairedCount,
+    droppedCount,
+    recoveryKey: droppedCount ? saveRecoveryCopy(JSON.stringify(await encodeValue(keys, dropped)), storageKey) : null,
+    recoveryBlob,
+    storedVersion,
+  };
+};
+
+// `raw` is the stored data as it was read, so it's still encrypted when the diary is.
+export const createSafeModeResult = (raw: string | null, storageKey = STORAGE_KEY): StorageLoadResult => ({
+  status: 'safeMode',
+  data: createEmptyAppData(),
+  repairedCount: 0,
+  droppedCount: 0,
+  recoveryKey: raw ? saveRecoveryCopy(raw, storageKey) : null,
+  recoveryBlob: raw,
+  storedVersion: null,
+});
+
+export const readStoredAppData = (key = STORAGE_KEY): string | null => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+};
+
+export const loadAppData = async (key = STORAGE_KEY, keys: EncryptionKeys | null = null): Promise<StorageLoadResult> => {
+  const raw = readStoredAppData(key);
+  if (!raw) {
+    return {
+      status: 'empty', data: createEmptyAppData(), repairedCount: 0, droppedCount: 0, recoveryKey: null, recoveryBlob: null,
+      storedVersion: null,
+    };
+  }
+
+  let result: StorageLoadResult;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const version = isRecord(parsed) && typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : null;
+    const data = version !== null && isRecord(parsed) ? await decodeValue(keys, parsed.data) : parsed;
+    result = await createLoadResult(normalizeAppData(data, version ?? 0), key, keys);
+  } catch (error) {
+    // Safe mode: start empty, but keep the unreadable blob so nothing is lost when the next save overwrites it.
+    console.error(error);
+    return createSafeModeResult(raw, key);
+  }
+
+  if (result.status === 'repaired' && (!result.recoveryBlob || result.recoveryKey)) {
+    try {
+      await saveAppData(result.data, key, keys);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+  return result;
+};
+
+export const saveAppData = async (data: AppData, key = STORAGE_KEY, keys: EncryptionKeys | null = null) => {
+  const stored: StoredAppData = { schemaVersion: SCHEMA_VERSION, data: await encodeValue(keys, data) };
+  window.localStorage.setItem(key, JSON.stringify(stored));
+};
@@ -0,0 +1,107 @@
+// Service worker: keeps the app usable offline and shows reminder notifications.
+// The app's own files are always fetched from the network first and the cache is only a fallback, so a release reaches
+// installed apps on their next load without touching this file. Bump CACHE_VERSION only when the caching below changes;
+// the app then offers to reload into the new worker.
+const CACHE_VERSION = 'v3';
+const APP_CACHE_PREFIX = 'food-diary-app-';
+const APP_CACHE = `${APP_CACHE_PREFIX}${CACHE_VERSION}`;
+// Third-party files cached by earlier versions, before React and the fonts were served with the app.
+const OLD_VENDOR_CACHE = 'food-diary-vendor';
+// On a connection that hangs (a subway tunnel) the cached copy is used rather than waiting for the network.
+const NETWORK_TIMEOUT_MS = 4000;
+
+// React and the fonts are served with the app (see vendor/README.md), so everything needed to start offline is here.
+const APP_SHELL = [
+  './', './index.html', './index.css', './index.tsx', './manifest.webmanifest', './icon.svg',
+  './vendor/react.js', './vendor/react-jsx-runtime.js', './vendor/react-dom-client.js',
+  './vendor/fonts/poppins-latin-400-normal.woff2', './vendor/fonts/poppins-latin-ext-400-normal.woff2',
+  './vendor/fonts/poppins-latin-600-normal.woff2', './vendor/fonts/poppins-latin-ext-600-normal.woff2',
+  './vendor/fonts/poppins-latin-700-normal.woff2', './vendor/fonts/poppins-latin-ext-700-normal.woff2',
+  './vendor/fonts/noto-sans-kr-latin-400-normal.woff2', './vendor/fonts/noto-sans-kr-korean-400-normal.woff2',
+  './vendor/fonts/noto-sans-kr-latin-700-normal.woff2', './vendor/fonts/noto-sans-kr-korean-700-normal.woff2',
+];
+
+const cacheUrl = async (cacheName, url) => {
+  const response = await fetch(url, { cache: 'reload' });
+  if (!response.ok) throw new Error(`Could not cache ${url}: ${response.status}`);
+  await (await caches.open(cacheName)).put(url, response);
+};
+
+// Modules and other files the app pulls in aren't listed here; refresh whatever the previous version had cached.
+const getPreviousAppUrls = async () => {
+  const names = (await caches.keys()).filter(name => name.startsWith(APP_CACHE_PREFIX) && name !== APP_CACHE);
+  const requests = await Promise.all(names.map(async name => (await caches.open(name)).keys()));
+  return [...new Set(requests.flat().map(request => request.url))];
+};
+
+// Installing fails (and is retried on the next load) unless the whole app shell is cached, so an installed app always
+// starts offline.
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    await Promise.all(APP_SHELL.map(url => cacheUrl(APP_CACHE, new URL(url, self.registration.scope).href)));
+    await Promise.allSettled((await getPreviousAppUrls()).map(url => cacheUrl(APP_CACHE, url)));
+    // The first install has no old version to replace; updates wait until the app asks to switch over.
+    if (!self.registration.active) await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => (name.startsWith(APP_CACHE_PREFIX) && name !== APP_CACHE) || name === OLD_VENDOR_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Falls back to the cache when offline, on a server error or when the network takes too long; a late response still
+// refreshes the cache for the next load.
+const fromNetworkOrCache = async (event, request, cacheKey = request) => {
+  const cache = await caches.open(APP_CACHE);
+  const network = fetch(request).then(async response => {
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  });
+  event.waitUntil(network.catch(() => undefined));
+  const timeout = new Promise(resolve => setTimeout(resolve, NETWORK_TIMEOUT_MS));
+  const response = await Promise.race([network.catch(() => undefined), timeout]);
+  if (response?.ok) return response;
+  return (await cache.match(cacheKey, { ignoreVary: true })) || response || network;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fromNetworkOrCache(event, request, new URL('./index.html', self.registration.scope).href));
+    return;
+  }
+  // A sync server behind the same origin (see sync-server.mjs) must always be asked for the latest records.
+  if (url.pathname.includes('/diaries/')) return;
+  if (url.origin === self.location.origin) event.respondWith(fromNetworkOrCache(event, request));
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'skipWaiting') {
+    self.skipWaiting();
+  } else if (event.data?.type === 'cacheUrls') {
+    // Files the page loaded before this worker controlled it.
+    event.waitUntil(Promise.allSettled(event.data.urls.map(async url => {
+      if (new URL(url).origin !== self.location.origin) return;
+      if (await (await caches.open(APP_CACHE)).match(url)) return;
+      await cacheUrl(APP_CACHE, url);
+    })));
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length) return windows[0].focus();
+    return self.clients.openWindow(self.registration.scope);
+  })());
+});
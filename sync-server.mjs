@@ -0,0 +1,128 @@
+// Reference sync server for the diary's optional sync (see sync.ts). No dependencies; run it with
+//
+//   node sync-server.mjs
+//
+// and enter http://localhost:8787 as the server address in Settings > Sync. Environment variables:
+//   PORT            port to listen on (default 8787)
+//   SYNC_DATA_FILE  JSON file the records are kept in (default ./sync-data.json)
+//   SYNC_TOKEN      when set, requests must send "Authorization: Bearer <token>"
+//
+// The server only stores records and checks revisions; merging conflicting edits happens on the devices.
+//
+//   GET  /diaries/:diary/records?since=<seq>  -> { records, cursor }
+//   POST /diaries/:diary/records { records }  -> { results: [{ status: 'ok' | 'conflict', record }] }
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA_FILE || './sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const SECTIONS = ['daily', 'weekly'];
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const ROUTE = /^\/diaries\/([^/]+)\/records$/;
+
+// { [diary]: { seq, records: { ["section/key"]: record } } }
+const diaries = existsSync(DATA_FILE) ? JSON.parse(readFileSync(DATA_FILE, 'utf8')) : {};
+
+const save = () => {
+  // Write to a temporary file first so a crash mid-write never leaves a truncated data file.
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(diaries));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length <= MAX_BODY_BYTES) return;
+    // Stop reading; the connection is closed once the error response is sent.
+    req.removeAllListeners('data');
+    req.pause();
+    reject(new Error('Request body too large'));
+  });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const isValidPush = record =>
+  record && SECTIONS.includes(record.section) && typeof record.key === 'string' &&
+  Number.isInteger(record.baseRevision) && typeof record.fieldTimes === 'object' && record.fieldTimes !== null;
+
+// A push is accepted only when it was based on the latest revision; otherwise the current record is returned so the
+// device can merge and push again. Records the server doesn't have are always accepted.
+const applyPush = (diary, push) => {
+  const id = `${push.section}/${push.key}`;
+  const current = diary.records[id];
+  if (current && current.revision !== push.baseRevision) return { status: 'conflict', record: current };
+  const deleted = push.deletedAt !== null && push.deletedAt !== undefined;
+  const record = {
+    section: push.section,
+    key: push.key,
+    value: deleted ? null : push.value,
+    fieldTimes: deleted ? {} : { ...current?.fieldTimes, ...push.fieldTimes },
+    deletedAt: deleted ? push.deletedAt : null,
+    revision: (current?.revision ?? 0) + 1,
+    deviceId: String(push.deviceId ?? ''),
+    seq: ++diary.seq,
+  };
+  diary.records[id] = record;
+  return { status: 'ok', record };
+};
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const url = new URL(req.url, 'http://localhost');
+  const match = ROUTE.exec(url.pathname);
+  if (!match) return send(res, 404, { error: 'Not found' });
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+  let name;
+  try {
+    name = decodeURIComponent(match[1]);
+  } catch {
+    return send(res, 400, { error: 'Invalid diary name' });
+  }
+  const diary = diaries[name] ?? { seq: 0, records: {} };
+
+  if (req.method === 'GET') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    const records = Object.values(diary.records).filter(record => record.seq > since).sort((a, b) => a.seq - b.seq);
+    return send(res, 200, { records, cursor: diary.seq });
+  }
+
+  if (req.method === 'POST') {
+    let pushed;
+    try {
+      pushed = JSON.parse(await readBody(req)).records;
+    } catch {
+      if (!req.complete) res.setHeader('Connection', 'close');
+      return send(res, 400, { error: 'Invalid JSON' });
+    }
+    if (!Array.isArray(pushed) || !pushed.every(isValidPush)) return send(res, 400, { error: 'Invalid records' });
+    diaries[name] = diary;
+    const results = pushed.map(push => applyPush(diary, push));
+    save();
+    return send(res, 200, { results });
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error(error);
+    send(res, 500, { error: 'Internal error' });
+  });
+}).listen(PORT, () => console.log(`Food diary sync server listening on http://localhost:${PORT}`));
@@ -0,0 +1,300 @@
+import type { AppData, DailyLogData, WeeklyPlanData } from './types';
+import type { AppDataChanges, AppDataEntries } from './database';
+import { isDateKey, repairDailyLog, repairWeeklyPlan } from './storage';
+
+export const SYNC_SETTINGS_KEY = 'foodDiary_syncSettings';
+export const SYNC_STATE_KEY = 'foodDiary_syncState';
+export const SYNC_QUEUE_KEY = 'foodDiary_syncQueue';
+export const SYNC_SECTIONS: (keyof AppData)[] = ['daily', 'weekly'];
+// Pushes retried after merging with a newer server version before giving up until the next sync.
+const MAX_PUSH_ROUNDS = 3;
+
+export type SyncSection = keyof AppData;
+export type SyncValue = DailyLogData | WeeklyPlanData;
+// When each field of a record was last edited, keyed by its path (see flattenRecord).
+export type FieldTimes = Record<string, number>;
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;
+  // Several diaries can share one server; each device of the same person uses the same diary name.
+  diaryId: string;
+  token: string;
+  deviceId: string;
+}
+
+// A record as the server stores it.
+export interface SyncRecord {
+  section: SyncSection;
+  key: string;
+  // null once the record was deleted.
+  value: SyncValue | null;
+  fieldTimes: FieldTimes;
+  deletedAt: number | null;
+  revision: number;
+  deviceId: string;
+}
+
+export interface PendingChange {
+  fieldTimes: FieldTimes;
+  deletedAt: number | null;
+}
+
+// Local edits not yet accepted by the server; kept across reloads so changes made offline are pushed later.
+export type SyncQueue = Record<SyncSection, Record<string, PendingChange>>;
+
+export interface SyncState {
+  // Server sequence number of the last pulled change.
+  cursor: number;
+  // The server revision each local record was last synced at.
+  revisions: Record<SyncSection, Record<string, number>>;
+  lastSyncedAt: number | null;
+}
+
+export interface SyncResult {
+  state: SyncState;
+  queue: SyncQueue;
+  entries: AppDataEntries;
+}
+
+export type SyncErrorKind = 'offline' | 'unauthorized' | 'failed';
+
+export class SyncResponseError extends Error {
+  constructor(readonly status: number) {
+    super(`Sync server responded with ${status}`);
+  }
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, serverUrl: '', diaryId: '', token: '', deviceId: '' };
+
+export const createSyncState = (): SyncState => ({ cursor: 0, revisions: { daily: {}, weekly: {} }, lastSyncedAt: null });
+
+export const createSyncQueue = (): SyncQueue => ({ daily: {}, weekly: {} });
+
+export const createDeviceId = () => `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getPendingCount = (queue: SyncQueue) =>
+  SYNC_SECTIONS.reduce((count, section) => count + Object.keys(queue[section]).length, 0);
+
+export const getSyncErrorKind = (error: unknown): SyncErrorKind => {
+  if (error instanceof SyncResponseError) return error.status === 401 || error.status === 403 ? 'unauthorized' : 'failed';
+  // fetch rejects with a TypeError when the server can't be reached at all.
+  return error instanceof TypeError ? 'offline' : 'failed';
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Flattens nested objects into leaf fields such as "meals/lunch/menu". Arrays (food items, exercises, photos) are single
+// fields, so two devices adding to the same list keep the later list rather than combining them.
+export const flattenRecord = (value: unknown, prefix = '', fields: Record<string, unknown> = {}) => {
+  if (!isPlainObject(value)) {
+    if (prefix) fields[prefix] = value;
+    return fields;
+  }
+  Object.entries(value).forEach(([key, child]) => flattenRecord(child, prefix ? `${prefix}/${key}` : key, fields));
+  return fields;
+};
+
+export const unflattenRecord = (fields: Record<string, unknown>) => {
+  const value: Record<string, any> = {};
+  Object.entries(fields).forEach(([path, field]) => {
+    const parts = path.split('/');
+    let target = value;
+    parts.slice(0, -1).forEach(part => {
+      if (!isPlainObject(target[part])) target[part] = {};
+      target = target[part];
+    });
+    target[parts[parts.length - 1]] = field;
+  });
+  return value;
+};
+
+const stampFields = (value: unknown, time: number): FieldTimes =>
+  Object.fromEntries(Object.keys(flattenRecord(value)).map(path => [path, time]));
+
+export const getChangedFields = (previous: unknown, next: unknown) => {
+  const before = flattenRecord(previous);
+  const after = flattenRecord(next);
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(path => JSON.stringify(before[path]) !== JSON.stringify(after[path]));
+};
+
+// Server data is checked like stored data: unreadable records are ignored rather than breaking the diary.
+export const repairSyncValue = (section: SyncSection, key: string, value: unknown): SyncValue | null => {
+  if (!isDateKey(key)) return null;
+  return section === 'daily' ? repairDailyLog(value) : repairWeeklyPlan(value);
+};
+
+type PushResult = { status: 'ok' | 'conflict'; record: SyncRecord };
+
+// The value is checked separately, with repairSyncValue.
+const isSyncRecord = (value: unknown): value is SyncRecord =>
+  isPlainObject(value)
+  && SYNC_SECTIONS.includes(value.section as SyncSection)
+  && typeof value.key === 'string'
+  && isPlainObject(value.fieldTimes)
+  && (value.deletedAt === null || typeof value.deletedAt === 'number')
+  && Number.isInteger(value.revision)
+  && typeof value.deviceId === 'string';
+
+const isPushResult = (value: unknown): value is PushResult =>
+  isPlainObject(value) && (value.status === 'ok' || value.status === 'conflict') && isSyncRecord(value.record);
+
+export const isSyncConfigured = (settings: SyncSettings) =>
+  settings.enabled && settings.serverUrl.trim() !== '' && settings.diaryId.trim() !== '';
+
+// Records every field a local write touched, stamped with the time of the write.
+export const queueChanges = (queue: SyncQueue, previous: AppData, changes: AppDataChanges, now = Date.now()): SyncQueue => {
+  const next: SyncQueue = { daily: { ...queue.daily }, weekly: { ...queue.weekly } };
+  SYNC_SECTIONS.forEach(section => {
+    Object.entries(changes[section].put).forEach(([key, value]) => {
+      const pending = next[section][key];
+      const fieldTimes = { ...pending?.fieldTimes };
+      getChangedFields(previous[section][key], value).forEach(path => { fieldTimes[path] = now; });
+      next[section][key] = { fieldTimes, deletedAt: null };
+    });
+    changes[section].remove.forEach(key => {
+      next[section][key] = { fieldTimes: {}, deletedAt: now };
+    });
+  });
+  return next;
+};
+
+// Used when sync is first turned on: everything already in the diary is sent. Its fields are stamped as older than any
+// edit, so where the server already has a record (pushed by another device) the server's values win; only fields and
+// records the server doesn't have are filled in from here. Edits made after turning sync on are stamped as usual.
+export const queueAll = (data: AppData): SyncQueue => {
+  const queue = createSyncQueue();
+  SYNC_SECTIONS.forEach(section => {
+    Object.entries(data[section]).forEach(([key, value]) => {
+      queue[section][key] = { fieldTimes: stampFields(value, 0), deletedAt: null };
+    });
+  });
+  return queue;
+};
+
+// `remaining` is what a sync run left unpushed from `started`; anything queued since then replaces it.
+export const mergeQueuedDuringSync = (remaining: SyncQueue, started: SyncQueue, latest: SyncQueue): SyncQueue => {
+  const merged: SyncQueue = { daily: { ...remaining.daily }, weekly: { ...remaining.weekly } };
+  SYNC_SECTIONS.forEach(section => {
+    Object.entries(latest[section]).forEach(([key, pending]) => {
+      if (JSON.stringify(pending) !== JSON.stringify(started[section][key])) merged[section][key] = pending;
+    });
+  });
+  return merged;
+};
+
+// Field-level last-writer-wins between the server's record and local edits it hasn't seen. Returns the merged value
+// (null when deleted) and the local edits that still have to be pushed. Relies on device clocks being roughly right.
+export const mergeWithRemote = (
+  remote: SyncRecord, pending: PendingChange, local: SyncValue | undefined
+): { value: SyncValue | null; pending: PendingChange | null } => {
+  const { deletedAt } = pending;
+  if (deletedAt !== null) {
+    // Deleted here, but edited elsewhere afterwards: the edit wins.
+    if (remote.value && Object.values(remote.fieldTimes).some(time => time > deletedAt)) return { value: remote.value, pending: null };
+    return { value: null, pending: remote.value ? pending : null };
+  }
+  if (!local) return { value: remote.value, pending: null };
+  if (!remote.value) {
+    // Edited here after it was deleted elsewhere: the whole local record comes back.
+    const editedAt = Math.max(0, ...Object.values(pending.fieldTimes));
+    return editedAt > (remote.deletedAt ?? 0)
+      ? { value: local, pending: { fieldTimes: stampFields(local, editedAt), deletedAt: null } }
+      : { value: null, pending: null };
+  }
+
+  const fields = flattenRecord(remote.value);
+  const localFields = flattenRecord(local);
+  const won: FieldTimes = {};
+  Object.entries(pending.fieldTimes).forEach(([path, time]) => {
+    if (time < (remote.fieldTimes[path] ?? 0)) return;
+    won[path] = time;
+    if (path in localFields) {
+      fields[path] = localFields[path];
+    } else {
+      delete fields[path];
+    }
+  });
+  const value = repairSyncValue(remote.section, remote.key, unflattenRecord(fields)) ?? remote.value;
+  return { value, pending: Object.keys(won).length ? { fieldTimes: won, deletedAt: null } : null };
+};
+
+const getRecordsUrl = (settings: SyncSettings, since?: number) => {
+  const base = `${settings.serverUrl.trim().replace(/\/+$/, '')}/diaries/${encodeURIComponent(settings.diaryId.trim())}/records`;
+  return since === undefined ? base : `${base}?since=${since}`;
+};
+
+const request = async (settings: SyncSettings, url: string, init: RequestInit = {}) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.token) headers.Authorization = `Bearer ${settings.token}`;
+  const response = await fetch(url, { ...init, headers });
+  if (!response.ok) throw new SyncResponseError(response.status);
+  return response.json();
+};
+
+// Pulls what other devices pushed since the last sync, merges it with local edits, then pushes the local edits.
+// `entries` holds the records to write locally; undefined means the record was deleted.
+export const runSync = async (settings: SyncSettings, state: SyncState, queue: SyncQueue, data: AppData): Promise<SyncResult> => {
+  const revisions: SyncState['revisions'] = { daily: { ...state.revisions.daily }, weekly: { ...state.revisions.weekly } };
+  const nextQueue: SyncQueue = { daily: { ...queue.daily }, weekly: { ...queue.weekly } };
+  const entries: AppDataEntries = { daily: {}, weekly: {} };
+  const getLocal = (section: SyncSection, key: string) =>
+    key in entries[section] ? entries[section][key] : data[section][key];
+
+  const applyRemote = (remote: SyncRecord) => {
+    const { section, key } = remote;
+    const value = remote.value && repairSyncValue(section, key, remote.value);
+    if (remote.value && !value) return;
+    const record = { ...remote, value };
+    const pending = nextQueue[section][key];
+    revisions[section][key] = record.revision;
+    if (!pending) {
+      entries[section][key] = record.value ?? undefined;
+      return;
+    }
+    const merged = mergeWithRemote(record, pending, getLocal(section, key));
+    entries[section][key] = merged.value ?? undefined;
+    if (merged.pending) {
+      nextQueue[section][key] = merged.pending;
+    } else {
+      delete nextQueue[section][key];
+    }
+  };
+
+  const pulled: { records: unknown[]; cursor: number } | null = await request(settings, getRecordsUrl(settings, state.cursor));
+  if (!Array.isArray(pulled?.records) || !Number.isInteger(pulled.cursor)) throw new Error('Unreadable sync server response');
+  pulled.records.filter(isSyncRecord).forEach(record => {
+    const ownEcho = record.deviceId === settings.deviceId && record.revision === revisions[record.section][record.key];
+    if (!ownEcho) applyRemote(record);
+  });
+
+  for (let round = 0; round < MAX_PUSH_ROUNDS && SYNC_SECTIONS.some(section => Object.keys(nextQueue[section]).length); round++) {
+    const pushed = SYNC_SECTIONS.flatMap(section => Object.entries(nextQueue[section]).map(([key, pending]) => ({
+      section,
+      key,
+      baseRevision: revisions[section][key] ?? 0,
+      value: pending.deletedAt === null ? getLocal(section, key) ?? null : null,
+      fieldTimes: pending.fieldTimes,
+      deletedAt: pending.deletedAt,
+      deviceId: settings.deviceId,
+    })));
+    const response: { results: unknown[] } | null = await request(settings, getRecordsUrl(settings), {
+      method: 'POST',
+      body: JSON.stringify({ records: pushed }),
+    });
+    if (!Array.isArray(response?.results)) throw new Error('Unreadable sync server response');
+    // Records the server answered for unreadably stay queued and are pushed again next time.
+    response.results.filter(isPushResult).forEach(({ status, record }) => {
+      if (status === 'ok') {
+        revisions[record.section][record.key] = record.revision;
+        delete nextQueue[record.section][record.key];
+      } else {
+        applyRemote(record);
+      }
+    });
+  }
+
+  return { state: { cursor: pulled.cursor, revisions, lastSyncedAt: Date.now() }, queue: nextQueue, entries };
+};
@@ -0,0 +1,86 @@
+import type { AppData, DailyLogData, WeeklyPlanData } from './types';
+import { decodeValue, encodeValue, type EncryptionKeys } from './encryption';
+import { isDateKey, repairDailyLog, repairWeeklyPlan } from './storage';
+
+export const TRASH_KEY = 'foodDiary_trash';
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DeletedEntry =
+  | { id: string; section: 'daily'; key: string; entry: DailyLogData; deletedAt: number }
+  | { id: string; section: 'weekly'; key: string; entry: WeeklyPlanData; deletedAt: number };
+
+export const createDeletedEntry = (data: AppData, section: keyof AppData, key: string): DeletedEntry | null => {
+  const deletedAt = Date.now();
+  const id = `${section}:${key}:${deletedAt}`;
+  if (section === 'daily') {
+    return data.daily[key] ? { id, section, key, entry: data.daily[key], deletedAt } : null;
+  }
+  return data.weekly[key] ? { id, section, key, entry: data.weekly[key], deletedAt } : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Deleted entries keep the shape of the version that deleted them, so they are repaired like stored diary data
+// (see storage.ts) before they can be restored. Unreadable ones are dropped.
+export const repairDeletedEntries = (value: unknown): DeletedEntry[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): DeletedEntry[] => {
+    if (!isRecord(item) || typeof item.id !== 'string' || typeof item.key !== 'string' || !isDateKey(item.key) ||
+        typeof item.deletedAt !== 'number') {
+      return [];
+    }
+    const { id, key, deletedAt } = item;
+    if (item.section === 'daily') {
+      const entry = repairDailyLog(item.entry);
+      return entry ? [{ id, section: 'daily', key, entry, deletedAt }] : [];
+    }
+    if (item.section === 'weekly') {
+      const entry = repairWeeklyPlan(item.entry);
+      return entry ? [{ id, section: 'weekly', key, entry, deletedAt }] : [];
+    }
+    return [];
+  });
+};
+
+// The trash holds whole diary entries, so it is encrypted along with the diary (see encryption.ts).
+export const loadTrash = async (storageKey: string, keys: EncryptionKeys | null): Promise<DeletedEntry[]> => {
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    return raw ? repairDeletedEntries(await decodeValue(keys, JSON.parse(raw))) : [];
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+export const saveTrash = async (storageKey: string, items: DeletedEntry[], keys: EncryptionKeys | null) => {
+  window.localStorage.setItem(storageKey, JSON.stringify(await encodeValue(keys, items)));
+};
+
+export const getExpiresAt = (item: DeletedEntry, retentionDays: number) => item.deletedAt + retentionDays * DAY_MS;
+
+export const purgeExpired = (items: DeletedEntry[], retentionDays: number, now = Date.now()) =>
+  items.filter(item => getExpiresAt(item, retentionDays) > now);
+
+export const restoreDeletedEntry = (data: AppData, item: DeletedEntry): AppData =>
+  item.section === 'daily'
+    ? { ...data, daily: { ...data.daily, [item.key]: item.entry } }
+    : { ...data, weekly: { ...data.weekly, [item.key]: item.entry } };
+
+const isSameEntry = (data: AppData, item: DeletedEntry) =>
+  JSON.stringify(data[item.section][item.key]) === JSON.stringify(item.entry);
+
+// Undoing a reset brings the entry back, so its copy is set aside rather than left in the trash; redoing the reset
+// returns the copy. `previous` and `next` are the diary before and after the undo or redo.
+export const applyHistoryStep = (trash: DeletedEntry[], setAside: DeletedEntry[], previous: AppData, next: AppData) => {
+  const restored = trash.filter(item => !previous[item.section][item.key] && isSameEntry(next, item));
+  const deletedAgain = setAside.filter(item => isSameEntry(previous, item) && !next[item.section][item.key]);
+  return {
+    trash: [...deletedAgain, ...trash.filter(item => !restored.includes(item))].sort((a, b) => b.deletedAt - a.deletedAt),
+    setAside: [...setAside.filter(item => !deletedAgain.includes(item)), ...restored],
+  };
+};
@@ -0,0 +1,70 @@
+export type BuiltInMealType = 'breakfast' | 'lunch' | 'snack' | 'dinner';
+
+// Id of a meal slot: one of the built-in slots or a user-defined one (see mealSlots.ts).
+export type MealType = string;
+
+export interface Nutrients {
+  kcal: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface MealFoodItem {
+  id: string;
+  foodId: string;
+  name: string;
+  servingLabel: string;
+  servings: number;
+  // Per serving, copied from the food when it was logged so later edits to the food don't rewrite history.
+  nutrients: Nutrients;
+}
+
+export interface MealData {
+  time: string;
+  menu: string;
+  rating: number | null;
+  notes: string;
+  items: MealFoodItem[];
+  // Ids of photos in the IndexedDB photo store (see photos.ts).
+  photos: string[];
+}
+
+export type ExerciseActivity =
+  | 'walking' | 'running' | 'cycling' | 'swimming' | 'hiking' | 'strength' | 'yoga' | 'dance' | 'sports' | 'other';
+
+export type ExerciseIntensity = 'light' | 'moderate' | 'vigorous';
+
+export interface ExerciseEntry {
+  id: string;
+  activity: ExerciseActivity;
+  durationMinutes: number;
+  intensity: ExerciseIntensity;
+  // Only one of these is asked for, depending on the activity (see exercise.ts).
+  distanceKm: number | null;
+  sets: number | null;
+  notes: string;
+}
+
+export interface DailyLogData {
+  meals: Record<MealType, MealData>;
+  water: number;
+  // Kilograms, or null when not weighed; shown in the user's preferred unit (see weight.ts).
+  weight: number | null;
+  sleep: number;
+  energy: number;
+  // Free text from before structured entries; still shown and editable when present.
+  exercise: string;
+  exercises: ExerciseEntry[];
+  notes: string;
+}
+
+export interface WeeklyPlanData {
+  days: Record<string, Record<MealType, string>>;
+  notes: string;
+}
+
+export interface AppData {
+  daily: Record<string, DailyLogData>;
+  weekly: Record<string, WeeklyPlanData>;
+}
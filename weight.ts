@@ -0,0 +1,103 @@
+import type { AppData } from './types';
+import type { SeriesPoint } from './analysis';
+import { addDays, getDaysBetween } from './dates';
+
+export type WeightUnit = 'kg' | 'lb';
+
+export const WEIGHT_UNITS: WeightUnit[] = ['kg', 'lb'];
+
+export const KG_PER_LB = 0.45359237;
+
+// Plausible adult body weights; anything outside is almost certainly a typo.
+export const MIN_WEIGHT_KG = 20;
+export const MAX_WEIGHT_KG = 400;
+
+// Share of each day's weigh-in that goes into the trend; 0.1 smooths out day-to-day water weight.
+export const WEIGHT_TREND_ALPHA = 0.1;
+// The weekly rate is the slope of the trend over this many days.
+const RATE_WINDOW_DAYS = 14;
+const MIN_RATE_SPAN_DAYS = 7;
+const MAX_PROJECTION_DAYS = 730;
+
+export type WeightInputResult =
+  | { ok: true; kg: number | null }
+  | { ok: false; min: number; max: number };
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const toDisplayWeight = (kg: number, unit: WeightUnit) => unit === 'kg' ? kg : kg / KG_PER_LB;
+
+// Stored weights are kilograms rounded to 10 g, enough to show either unit to one decimal without drift.
+export const fromDisplayWeight = (value: number, unit: WeightUnit) => round(unit === 'kg' ? value : value * KG_PER_LB, 2);
+
+export const formatWeightValue = (kg: number, unit: WeightUnit) => String(round(toDisplayWeight(kg, unit), 1));
+
+export const formatWeight = (kg: number, unit: WeightUnit) => `${formatWeightValue(kg, unit)} ${unit}`;
+
+export const formatWeightChange = (kg: number, unit: WeightUnit) => `${kg > 0 ? '+' : ''}${formatWeight(kg, unit)}`;
+
+export const getWeightLimits = (unit: WeightUnit) => ({
+  min: Math.ceil(toDisplayWeight(MIN_WEIGHT_KG, unit)),
+  max: Math.floor(toDisplayWeight(MAX_WEIGHT_KG, unit)),
+});
+
+export const parseWeightInput = (text: string, unit: WeightUnit): WeightInputResult => {
+  const trimmed = text.trim().replace(',', '.');
+  if (!trimmed) return { ok: true, kg: null };
+  const value = Number(trimmed);
+  const limits = getWeightLimits(unit);
+  if (!Number.isFinite(value) || value < limits.min || value > limits.max) return { ok: false, ...limits };
+  return { ok: true, kg: fromDisplayWeight(value, unit) };
+};
+
+// Accepts the old free-text field ("65.5") as well as numbers; anything unusable becomes "not logged".
+export const parseStoredWeight = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : null;
+};
+
+export const getWeightPoints = (daily: AppData['daily']): SeriesPoint[] =>
+  Object.keys(daily).sort().flatMap(date => {
+    const weight = daily[date].weight;
+    return weight === null ? [] : [{ date, value: weight }];
+  });
+
+// The most recent weigh-in on or before `date`, for estimates that need a body weight.
+export const getLatestWeight = (daily: AppData['daily'], date: string) => {
+  const latest = Object.keys(daily).filter(key => key <= date && daily[key].weight !== null).sort().pop();
+  return latest === undefined ? null : daily[latest].weight;
+};
+
+// Exponential moving average that treats a gap of n days like n daily steps, so missed weigh-ins don't skew it.
+export const getWeightTrend = (points: SeriesPoint[], alpha = WEIGHT_TREND_ALPHA): SeriesPoint[] => {
+  let previous: SeriesPoint | null = null;
+  return points.map(point => {
+    const value = previous === null
+      ? point.value
+      : previous.value + (1 - (1 - alpha) ** Math.max(1, getDaysBetween(previous.date, point.date))) * (point.value - previous.value);
+    previous = { date: point.date, value };
+    return previous;
+  });
+};
+
+// Least-squares slope of the trend over its last RATE_WINDOW_DAYS, per week. Null until the trend spans a week.
+export const getWeeklyRate = (trend: SeriesPoint[]) => {
+  if (!trend.length) return null;
+  const last = trend[trend.length - 1].date;
+  const recent = trend.filter(point => getDaysBetween(point.date, last) < RATE_WINDOW_DAYS);
+  if (getDaysBetween(recent[0].date, last) < MIN_RATE_SPAN_DAYS) return null;
+  const xs = recent.map(point => getDaysBetween(recent[0].date, point.date));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = recent.reduce((sum, point) => sum + point.value, 0) / recent.length;
+  const covariance = recent.reduce((sum, point, i) => sum + (xs[i] - meanX) * (point.value - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  return variance ? (covariance / variance) * 7 : null;
+};
+
+// When the trend reaches `target` at the current rate; null if it's moving away or would take over two years.
+export const projectGoalDate = (trend: SeriesPoint[], weeklyRate: number | null, target: number) => {
+  if (!trend.length || !weeklyRate) return null;
+  const latest = trend[trend.length - 1];
+  const days = Math.ceil(((target - latest.value) / weeklyRate) * 7);
+  return days > 0 && days <= MAX_PROJECTION_DAYS ? addDays(latest.date, days) : null;
+};